@@ -0,0 +1,54 @@
+import {
+  confidenceInterval95,
+  mean,
+  median,
+  percentile,
+  standardDeviation,
+} from './statistics';
+
+export interface MetricAggregate {
+  metric: string;
+  runs: number; // Runs that recorded the metric
+  median: number;
+  p95: number;
+  mean: number;
+  stddev: number;
+  ci95Low: number; // 95% confidence interval of the mean
+  ci95High: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * Aggregates the metrics of repeated runs of a scenario, one row per metric.
+ * A metric missing from some runs is aggregated over the runs that have it.
+ */
+export function aggregateRuns(
+  runs: Array<Record<string, number>>,
+): MetricAggregate[] {
+  const names = Array.from(new Set(runs.flatMap((run) => Object.keys(run))));
+
+  return names.sort().map((metric) => {
+    const values = runs
+      .map((run) => run[metric])
+      .filter((value): value is number => value !== undefined);
+    const [ci95Low, ci95High] = confidenceInterval95(values);
+
+    return {
+      metric,
+      runs: values.length,
+      median: round(median(values)),
+      p95: round(percentile(values, 95)),
+      mean: round(mean(values)),
+      stddev: round(standardDeviation(values)),
+      ci95Low: round(ci95Low),
+      ci95High: round(ci95High),
+      min: round(Math.min(...values)),
+      max: round(Math.max(...values)),
+    };
+  });
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(3));
+}
@@ -0,0 +1,196 @@
+import {mannWhitneyU, median, minimumMannWhitneyPValue} from './statistics';
+
+// Metrics of one scenario, one record per run
+export type ScenarioRunMetrics = Map<string, Array<Record<string, number>>>;
+
+export type ComparisonStatus =
+  | 'regression'
+  | 'improvement'
+  | 'unchanged'
+  | 'inconclusive' // Too few runs for any change to be significant
+  | 'missing';
+
+export interface MetricComparison {
+  scenario: string;
+  metric: string;
+  baselineMedian: number;
+  candidateMedian: number;
+  delta: number; // Candidate median minus baseline median
+  deltaPercent: number;
+  pValue: number;
+  baselineRuns: number;
+  candidateRuns: number;
+  status: ComparisonStatus;
+}
+
+export interface CompareOptions {
+  alpha: number; // Significance level of the Mann-Whitney U test
+  tolerancePercent: number; // Median changes within this are never flagged
+}
+
+// Metrics where a larger value is better, everything else is a cost
+const HIGHER_IS_BETTER = [/Fps$/];
+
+const STATUS_LABELS: Record<ComparisonStatus, string> = {
+  regression: '**regression**',
+  improvement: '**improvement**',
+  unchanged: 'unchanged',
+  inconclusive: 'inconclusive',
+  missing: 'missing',
+};
+
+/**
+ * Compares the runs of every scenario and metric found in both result sets.
+ * A change is flagged when it is statistically significant and larger than
+ * the tolerance.
+ */
+export function compareRuns(
+  baseline: ScenarioRunMetrics,
+  candidate: ScenarioRunMetrics,
+  options: CompareOptions,
+): MetricComparison[] {
+  const comparisons: MetricComparison[] = [];
+  const scenarios = Array.from(
+    new Set([...baseline.keys(), ...candidate.keys()]),
+  ).sort();
+
+  for (const scenario of scenarios) {
+    const baselineRuns = baseline.get(scenario) ?? [];
+    const candidateRuns = candidate.get(scenario) ?? [];
+    const metrics = Array.from(
+      new Set([...baselineRuns, ...candidateRuns].flatMap(Object.keys)),
+    ).sort();
+
+    for (const metric of metrics) {
+      const baselineValues = valuesOf(baselineRuns, metric);
+      const candidateValues = valuesOf(candidateRuns, metric);
+      comparisons.push(
+        compareMetric(
+          scenario,
+          metric,
+          baselineValues,
+          candidateValues,
+          options,
+        ),
+      );
+    }
+  }
+
+  return comparisons;
+}
+
+function compareMetric(
+  scenario: string,
+  metric: string,
+  baselineValues: number[],
+  candidateValues: number[],
+  options: CompareOptions,
+): MetricComparison {
+  const baselineMedian = median(baselineValues);
+  const candidateMedian = median(candidateValues);
+  const delta = candidateMedian - baselineMedian;
+  const deltaPercent =
+    baselineMedian !== 0
+      ? (delta / Math.abs(baselineMedian)) * 100
+      : delta === 0
+        ? 0
+        : Infinity * Math.sign(delta);
+  const {pValue} = mannWhitneyU(baselineValues, candidateValues);
+
+  let status: ComparisonStatus = 'unchanged';
+  if (baselineValues.length === 0 || candidateValues.length === 0) {
+    status = 'missing';
+  } else if (
+    minimumMannWhitneyPValue(baselineValues.length, candidateValues.length) >=
+    options.alpha
+  ) {
+    status = 'inconclusive';
+  } else if (
+    pValue < options.alpha &&
+    Math.abs(deltaPercent) > options.tolerancePercent
+  ) {
+    const higherIsBetter = HIGHER_IS_BETTER.some((pattern) =>
+      pattern.test(metric),
+    );
+    status = delta > 0 === higherIsBetter ? 'improvement' : 'regression';
+  }
+
+  return {
+    scenario,
+    metric,
+    baselineMedian: round(baselineMedian),
+    candidateMedian: round(candidateMedian),
+    delta: round(delta),
+    deltaPercent: round(deltaPercent),
+    pValue: round(pValue),
+    baselineRuns: baselineValues.length,
+    candidateRuns: candidateValues.length,
+    status,
+  };
+}
+
+/**
+ * Renders the comparison as a Markdown table, ready to paste into a PR
+ */
+export function formatComparisonMarkdown(
+  comparisons: MetricComparison[],
+  baselineName: string,
+  candidateName: string,
+  options: CompareOptions,
+): string {
+  const regressions = comparisons.filter((c) => c.status === 'regression');
+  const improvements = comparisons.filter((c) => c.status === 'improvement');
+  const inconclusive = comparisons.filter((c) => c.status === 'inconclusive');
+
+  const lines = [
+    `## Performance comparison`,
+    '',
+    `Baseline \`${baselineName}\` vs candidate \`${candidateName}\`: ${regressions.length} regressions, ${improvements.length} improvements.`,
+    `Changes are flagged when significant at p < ${options.alpha} (Mann-Whitney U) and larger than ${options.tolerancePercent}%.`,
+    ...(inconclusive.length > 0
+      ? [
+          '',
+          `> **Warning:** ${inconclusive.length} metrics have too few runs to reach p < ${options.alpha}, whatever the change. Run both sides with \`--repeat ${minimumRepeat(options.alpha)}\` or more.`,
+        ]
+      : []),
+    '',
+    '| Scenario | Metric | Baseline | Candidate | Change | p | Runs | Status |',
+    '| --- | --- | ---: | ---: | ---: | ---: | ---: | --- |',
+  ];
+
+  for (const c of comparisons) {
+    const sign = c.delta > 0 ? '+' : '';
+    lines.push(
+      `| ${c.scenario} | ${c.metric} | ${formatNumber(c.baselineMedian)} | ${formatNumber(c.candidateMedian)} | ${sign}${formatNumber(c.delta)} (${sign}${formatNumber(c.deltaPercent)}%) | ${formatNumber(c.pValue)} | ${c.baselineRuns} / ${c.candidateRuns} | ${STATUS_LABELS[c.status]} |`,
+    );
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Fewest runs on each side with which the Mann-Whitney U test can reach
+ * p < alpha
+ */
+export function minimumRepeat(alpha: number): number {
+  let runs = 1;
+  while (minimumMannWhitneyPValue(runs, runs) >= alpha) runs++;
+  return runs;
+}
+
+function valuesOf(
+  runs: Array<Record<string, number>>,
+  metric: string,
+): number[] {
+  return runs
+    .map((run) => run[metric])
+    .filter((value) => value !== undefined && Number.isFinite(value));
+}
+
+function formatNumber(value: number): string {
+  return Number.isFinite(value) ? String(value) : '-';
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(3));
+}
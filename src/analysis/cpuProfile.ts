@@ -0,0 +1,183 @@
+import {Protocol} from 'puppeteer';
+
+export interface FunctionTime {
+  functionName: string;
+  url: string;
+  lineNumber: number; // 1-based, as shown in DevTools
+  columnNumber: number; // 1-based
+  selfTimeMs: number; // Time spent in the function itself
+  selfPercent: number;
+  totalTimeMs: number; // Time spent in the function and everything it called
+  totalPercent: number;
+}
+
+export interface UrlTime {
+  url: string; // Script or bundle chunk the time was spent in
+  selfTimeMs: number;
+  selfPercent: number;
+  totalTimeMs: number; // Time with any function of the script on the stack
+  totalPercent: number;
+}
+
+export interface CpuProfileSummary {
+  durationMs: number;
+  functions: FunctionTime[]; // Top functions by self time and by total time
+  urls: UrlTime[]; // All scripts, by self time
+}
+
+// Functions without a script, such as (program) or (garbage collector)
+const NATIVE_URL = '(native)';
+
+/**
+ * Attributes sampled time to functions and scripts.
+ * A sample lasts until the next one, and time counts once per function
+ * or script on the stack even when it recurses.
+ */
+export function summarizeCpuProfile(
+  profile: Protocol.Profiler.Profile,
+  topCount: number,
+): CpuProfileSummary {
+  const nodes = new Map(profile.nodes.map((node) => [node.id, node]));
+  const parents = new Map<number, number>();
+  for (const node of profile.nodes) {
+    for (const child of node.children ?? []) {
+      parents.set(child, node.id);
+    }
+  }
+
+  const functionKey = (node: Protocol.Profiler.ProfileNode) => {
+    const {functionName, url, lineNumber, columnNumber} = node.callFrame;
+    return `${functionName}|${url}|${lineNumber}|${columnNumber}`;
+  };
+  const urlOf = (node: Protocol.Profiler.ProfileNode) =>
+    node.callFrame.url || NATIVE_URL;
+
+  const functions = new Map<string, FunctionTime>();
+  const urls = new Map<string, UrlTime>();
+
+  const samples = profile.samples ?? [];
+  const timeDeltas = profile.timeDeltas ?? [];
+
+  // Sample timestamps in µs
+  const timestamps: number[] = [];
+  let time = profile.startTime;
+  for (let i = 0; i < samples.length; i++) {
+    time += timeDeltas[i] ?? 0;
+    timestamps.push(time);
+  }
+
+  for (let i = 0; i < samples.length; i++) {
+    const end = i + 1 < samples.length ? timestamps[i + 1] : profile.endTime;
+    const durationMs = Math.max(0, end - timestamps[i]) / 1000;
+    const sampleNode = nodes.get(samples[i]);
+    if (!sampleNode) continue;
+
+    const seenFunctions = new Set<string>();
+    const seenUrls = new Set<string>();
+    let nodeId: number | undefined = sampleNode.id;
+    while (nodeId !== undefined) {
+      const node = nodes.get(nodeId)!;
+      // The root is not a function, only a container for the call tree
+      if (parents.has(nodeId)) {
+        const key = functionKey(node);
+        const url = urlOf(node);
+
+        const functionTime = getOrCreateFunction(functions, key, node);
+        const urlTime = getOrCreateUrl(urls, url);
+
+        if (nodeId === sampleNode.id) {
+          functionTime.selfTimeMs += durationMs;
+          urlTime.selfTimeMs += durationMs;
+        }
+        if (!seenFunctions.has(key)) {
+          seenFunctions.add(key);
+          functionTime.totalTimeMs += durationMs;
+        }
+        if (!seenUrls.has(url)) {
+          seenUrls.add(url);
+          urlTime.totalTimeMs += durationMs;
+        }
+      }
+      nodeId = parents.get(nodeId);
+    }
+  }
+
+  const durationMs = (profile.endTime - profile.startTime) / 1000;
+  const percentOf = (value: number) =>
+    durationMs > 0 ? round((value / durationMs) * 100) : 0;
+
+  const allFunctions = Array.from(functions.values()).map((f) => ({
+    ...f,
+    selfTimeMs: round(f.selfTimeMs),
+    selfPercent: percentOf(f.selfTimeMs),
+    totalTimeMs: round(f.totalTimeMs),
+    totalPercent: percentOf(f.totalTimeMs),
+  }));
+
+  const bySelf = [...allFunctions]
+    .sort((a, b) => b.selfTimeMs - a.selfTimeMs)
+    .slice(0, topCount);
+  const byTotal = [...allFunctions]
+    .sort((a, b) => b.totalTimeMs - a.totalTimeMs)
+    .slice(0, topCount);
+  const topFunctions = Array.from(new Set([...bySelf, ...byTotal])).sort(
+    (a, b) => b.selfTimeMs - a.selfTimeMs,
+  );
+
+  const allUrls = Array.from(urls.values())
+    .map((u) => ({
+      ...u,
+      selfTimeMs: round(u.selfTimeMs),
+      selfPercent: percentOf(u.selfTimeMs),
+      totalTimeMs: round(u.totalTimeMs),
+      totalPercent: percentOf(u.totalTimeMs),
+    }))
+    .sort((a, b) => b.selfTimeMs - a.selfTimeMs);
+
+  return {
+    durationMs: round(durationMs),
+    functions: topFunctions,
+    urls: allUrls,
+  };
+}
+
+function getOrCreateFunction(
+  functions: Map<string, FunctionTime>,
+  key: string,
+  node: Protocol.Profiler.ProfileNode,
+): FunctionTime {
+  let functionTime = functions.get(key);
+  if (!functionTime) {
+    functionTime = {
+      functionName: node.callFrame.functionName || '(anonymous)',
+      url: node.callFrame.url || NATIVE_URL,
+      lineNumber: node.callFrame.lineNumber + 1,
+      columnNumber: node.callFrame.columnNumber + 1,
+      selfTimeMs: 0,
+      selfPercent: 0,
+      totalTimeMs: 0,
+      totalPercent: 0,
+    };
+    functions.set(key, functionTime);
+  }
+  return functionTime;
+}
+
+function getOrCreateUrl(urls: Map<string, UrlTime>, url: string): UrlTime {
+  let urlTime = urls.get(url);
+  if (!urlTime) {
+    urlTime = {
+      url,
+      selfTimeMs: 0,
+      selfPercent: 0,
+      totalTimeMs: 0,
+      totalPercent: 0,
+    };
+    urls.set(url, urlTime);
+  }
+  return urlTime;
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
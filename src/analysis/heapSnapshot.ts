@@ -0,0 +1,507 @@
+import {createReadStream} from 'fs';
+
+// Subset of the .heapsnapshot format written by V8
+export interface RawHeapSnapshot {
+  snapshot: {
+    meta: {
+      node_fields: string[];
+      node_types: [string[], ...unknown[]];
+      edge_fields: string[];
+      edge_types: [string[], ...unknown[]];
+    };
+  };
+  nodes: Uint32Array;
+  edges: Uint32Array;
+  strings: string[];
+}
+
+export interface HeapClassSummary {
+  className: string;
+  count: number;
+  selfSize: number; // Bytes held by the objects themselves
+  retainedSize: number; // Bytes that would be freed if all objects were collected
+}
+
+export interface HeapClassDiff {
+  className: string;
+  countBefore: number;
+  countAfter: number;
+  countDelta: number;
+  selfSizeDelta: number;
+  retainedSizeBefore: number;
+  retainedSizeAfter: number;
+  retainedSizeDelta: number;
+}
+
+/**
+ * Reads a .heapsnapshot file as a stream. Snapshots of a large heap do not
+ * fit in a single string, so nodes and edges go straight into typed arrays
+ * and the sections the analysis does not use are skipped.
+ */
+export async function readHeapSnapshot(
+  snapshotFile: string,
+  chunkSize = 1024 * 1024,
+): Promise<RawHeapSnapshot> {
+  const parser = new HeapSnapshotParser();
+  for await (const chunk of createReadStream(snapshotFile, {
+    highWaterMark: chunkSize,
+  })) {
+    parser.write(chunk as Buffer);
+  }
+  return parser.end(snapshotFile);
+}
+
+/**
+ * Reads a .heapsnapshot file and aggregates its objects per constructor.
+ * Retained sizes come from the dominator tree, so a class's retained size
+ * counts each byte once even when its instances retain each other.
+ */
+export async function summarizeHeapSnapshot(
+  snapshotFile: string,
+): Promise<Map<string, HeapClassSummary>> {
+  const raw = await readHeapSnapshot(snapshotFile);
+
+  const {meta} = raw.snapshot;
+  const nodeFieldCount = meta.node_fields.length;
+  const edgeFieldCount = meta.edge_fields.length;
+  const nodeTypeOffset = meta.node_fields.indexOf('type');
+  const nodeNameOffset = meta.node_fields.indexOf('name');
+  const nodeSelfSizeOffset = meta.node_fields.indexOf('self_size');
+  const nodeEdgeCountOffset = meta.node_fields.indexOf('edge_count');
+  const edgeTypeOffset = meta.edge_fields.indexOf('type');
+  const edgeToNodeOffset = meta.edge_fields.indexOf('to_node');
+  const nodeTypes = meta.node_types[0];
+  const weakEdgeType = meta.edge_types[0].indexOf('weak');
+
+  const nodes = raw.nodes;
+  const edges = raw.edges;
+  const nodeCount = nodes.length / nodeFieldCount;
+
+  // Class of every node, as an index into classNames
+  const classNames: string[] = [];
+  const classIndexByName = new Map<string, number>();
+  const nodeClass = new Int32Array(nodeCount);
+  for (let node = 0; node < nodeCount; node++) {
+    const base = node * nodeFieldCount;
+    const type = nodeTypes[nodes[base + nodeTypeOffset]];
+    const className =
+      type === 'object' || type === 'native'
+        ? raw.strings[nodes[base + nodeNameOffset]]
+        : `(${type})`;
+
+    let classIndex = classIndexByName.get(className);
+    if (classIndex === undefined) {
+      classIndex = classNames.length;
+      classNames.push(className);
+      classIndexByName.set(className, classIndex);
+    }
+    nodeClass[node] = classIndex;
+  }
+
+  // Edges of a node are stored contiguously, in node order
+  const firstEdge = new Uint32Array(nodeCount + 1);
+  for (let node = 0; node < nodeCount; node++) {
+    firstEdge[node + 1] =
+      firstEdge[node] +
+      nodes[node * nodeFieldCount + nodeEdgeCountOffset] * edgeFieldCount;
+  }
+
+  const edgeTarget = (edgeIndex: number) =>
+    edges[edgeIndex + edgeToNodeOffset] / nodeFieldCount;
+  const isStrongEdge = (edgeIndex: number) =>
+    edges[edgeIndex + edgeTypeOffset] !== weakEdgeType;
+
+  // Depth first post order from the root (node 0), following strong edges
+  const postOrder = new Int32Array(nodeCount);
+  const postOrderIndex = new Int32Array(nodeCount).fill(-1);
+  const visited = new Uint8Array(nodeCount);
+  const stackNode = new Int32Array(nodeCount);
+  const stackEdge = new Uint32Array(nodeCount);
+  let reachableCount = 0;
+  let stackSize = 0;
+
+  stackNode[0] = 0;
+  stackEdge[0] = firstEdge[0];
+  visited[0] = 1;
+  stackSize = 1;
+  while (stackSize > 0) {
+    const node = stackNode[stackSize - 1];
+    const edgeIndex = stackEdge[stackSize - 1];
+    if (edgeIndex < firstEdge[node + 1]) {
+      stackEdge[stackSize - 1] = edgeIndex + edgeFieldCount;
+      if (!isStrongEdge(edgeIndex)) {
+        continue;
+      }
+      const target = edgeTarget(edgeIndex);
+      if (!visited[target]) {
+        visited[target] = 1;
+        stackNode[stackSize] = target;
+        stackEdge[stackSize] = firstEdge[target];
+        stackSize++;
+      }
+    } else {
+      postOrderIndex[node] = reachableCount;
+      postOrder[reachableCount++] = node;
+      stackSize--;
+    }
+  }
+
+  // Predecessors of every reachable node
+  const predecessorCount = new Uint32Array(nodeCount + 1);
+  for (let node = 0; node < nodeCount; node++) {
+    if (!visited[node]) continue;
+    for (
+      let e = firstEdge[node];
+      e < firstEdge[node + 1];
+      e += edgeFieldCount
+    ) {
+      if (isStrongEdge(e)) predecessorCount[edgeTarget(e) + 1]++;
+    }
+  }
+  for (let node = 0; node < nodeCount; node++) {
+    predecessorCount[node + 1] += predecessorCount[node];
+  }
+  const firstPredecessor = predecessorCount;
+  const predecessors = new Int32Array(firstPredecessor[nodeCount]);
+  const fill = new Uint32Array(nodeCount);
+  for (let node = 0; node < nodeCount; node++) {
+    if (!visited[node]) continue;
+    for (
+      let e = firstEdge[node];
+      e < firstEdge[node + 1];
+      e += edgeFieldCount
+    ) {
+      if (!isStrongEdge(e)) continue;
+      const target = edgeTarget(e);
+      predecessors[firstPredecessor[target] + fill[target]++] = node;
+    }
+  }
+
+  // Immediate dominators, Cooper-Harvey-Kennedy iterative algorithm on post order indexes
+  const rootIndex = reachableCount - 1;
+  const dominator = new Int32Array(reachableCount).fill(-1);
+  dominator[rootIndex] = rootIndex;
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (let index = rootIndex - 1; index >= 0; index--) {
+      const node = postOrder[index];
+      let newDominator = -1;
+      for (
+        let p = firstPredecessor[node];
+        p < firstPredecessor[node + 1];
+        p++
+      ) {
+        const predecessorIndex = postOrderIndex[predecessors[p]];
+        if (dominator[predecessorIndex] === -1) continue;
+        if (newDominator === -1) {
+          newDominator = predecessorIndex;
+          continue;
+        }
+        let a = predecessorIndex;
+        let b = newDominator;
+        while (a !== b) {
+          while (a < b) a = dominator[a];
+          while (b < a) b = dominator[b];
+        }
+        newDominator = a;
+      }
+      if (newDominator !== -1 && dominator[index] !== newDominator) {
+        dominator[index] = newDominator;
+        changed = true;
+      }
+    }
+  }
+
+  // A dominator always finishes after the nodes it dominates,
+  // so sizes can be rolled up in post order
+  const retainedSize = new Float64Array(reachableCount);
+  for (let index = 0; index < reachableCount; index++) {
+    retainedSize[index] +=
+      nodes[postOrder[index] * nodeFieldCount + nodeSelfSizeOffset];
+    if (index !== rootIndex) {
+      retainedSize[dominator[index]] += retainedSize[index];
+    }
+  }
+
+  // Children in the dominator tree, to walk it from the root
+  const childStart = new Uint32Array(reachableCount + 1);
+  for (let index = 0; index < rootIndex; index++) {
+    childStart[dominator[index] + 1]++;
+  }
+  for (let index = 0; index < reachableCount; index++) {
+    childStart[index + 1] += childStart[index];
+  }
+  const children = new Int32Array(Math.max(rootIndex, 0));
+  const childFill = new Uint32Array(reachableCount);
+  for (let index = 0; index < rootIndex; index++) {
+    const parent = dominator[index];
+    children[childStart[parent] + childFill[parent]++] = index;
+  }
+
+  const summaries = classNames.map((className) => ({
+    className,
+    count: 0,
+    selfSize: 0,
+    retainedSize: 0,
+  }));
+
+  // Only instances not dominated by another instance of their class add retained size
+  const openInstances = new Uint32Array(classNames.length);
+  const walkIndex = new Int32Array(reachableCount);
+  const walkChild = new Uint32Array(reachableCount);
+  let walkSize = 0;
+  const enter = (index: number) => {
+    const node = postOrder[index];
+    const summary = summaries[nodeClass[node]];
+    summary.count++;
+    summary.selfSize += nodes[node * nodeFieldCount + nodeSelfSizeOffset];
+    if (openInstances[nodeClass[node]]++ === 0) {
+      summary.retainedSize += retainedSize[index];
+    }
+    walkIndex[walkSize] = index;
+    walkChild[walkSize] = childStart[index];
+    walkSize++;
+  };
+
+  if (reachableCount > 0) {
+    enter(rootIndex);
+  }
+  while (walkSize > 0) {
+    const index = walkIndex[walkSize - 1];
+    const child = walkChild[walkSize - 1];
+    if (child < childStart[index + 1]) {
+      walkChild[walkSize - 1] = child + 1;
+      enter(children[child]);
+    } else {
+      openInstances[nodeClass[postOrder[index]]]--;
+      walkSize--;
+    }
+  }
+
+  // Synthetic nodes are the GC roots, not objects of the page
+  return new Map(
+    summaries
+      .filter(
+        (summary) => summary.count > 0 && summary.className !== '(synthetic)',
+      )
+      .map((summary) => [summary.className, summary]),
+  );
+}
+
+/**
+ * Compares two heap snapshots per class, biggest retained size growth first
+ */
+export async function diffHeapSnapshots(
+  beforeFile: string,
+  afterFile: string,
+): Promise<HeapClassDiff[]> {
+  const before = await summarizeHeapSnapshot(beforeFile);
+  const after = await summarizeHeapSnapshot(afterFile);
+
+  const classNames = new Set([...before.keys(), ...after.keys()]);
+  const empty = {count: 0, selfSize: 0, retainedSize: 0};
+
+  const diffs: HeapClassDiff[] = [];
+  for (const className of classNames) {
+    const b = before.get(className) ?? empty;
+    const a = after.get(className) ?? empty;
+    diffs.push({
+      className,
+      countBefore: b.count,
+      countAfter: a.count,
+      countDelta: a.count - b.count,
+      selfSizeDelta: a.selfSize - b.selfSize,
+      retainedSizeBefore: b.retainedSize,
+      retainedSizeAfter: a.retainedSize,
+      retainedSizeDelta: a.retainedSize - b.retainedSize,
+    });
+  }
+
+  return diffs.sort(
+    (x, y) =>
+      y.retainedSizeDelta - x.retainedSizeDelta || y.countDelta - x.countDelta,
+  );
+}
+
+// Values the nodes and edges buffers start with, doubled as needed
+const INITIAL_NUMBERS = 1024 * 1024;
+
+const QUOTE = 0x22;
+const BACKSLASH = 0x5c;
+const COMMA = 0x2c;
+const COLON = 0x3a;
+const DIGIT_0 = 0x30;
+const DIGIT_9 = 0x39;
+const OPEN_BRACKET = 0x5b;
+const CLOSE_BRACKET = 0x5d;
+const OPEN_BRACE = 0x7b;
+const CLOSE_BRACE = 0x7d;
+
+type ParserState =
+  | 'object' // Before the top level object
+  | 'key' // Between top level keys
+  | 'value' // Between a key and its value
+  | 'numbers' // Inside nodes or edges
+  | 'strings' // Inside strings
+  | 'nested'; // Inside any other value, kept only for snapshot
+
+/**
+ * Byte by byte parser of the top level of a .heapsnapshot. Multi-byte UTF-8
+ * characters never contain a quote or a backslash byte, so strings can be
+ * delimited without decoding them.
+ */
+class HeapSnapshotParser {
+  private state: ParserState = 'object';
+  private key = '';
+  private keyBytes: number[] | null = null;
+
+  // Inside nested values and string arrays
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private captured: Buffer[] | null = null;
+
+  private numbers = new Uint32Array(INITIAL_NUMBERS);
+  private numberCount = 0;
+  private number = -1; // Digits of the number being read, -1 between numbers
+  private stringParts: Buffer[] = [];
+
+  private snapshot: RawHeapSnapshot['snapshot'] | null = null;
+  private nodes: Uint32Array | null = null;
+  private edges: Uint32Array | null = null;
+  private strings: string[] = [];
+
+  write(chunk: Buffer): void {
+    let start = 0;
+    for (let i = 0; i < chunk.length; i++) {
+      const byte = chunk[i];
+      switch (this.state) {
+        case 'object':
+          if (byte === OPEN_BRACE) this.state = 'key';
+          break;
+
+        case 'key':
+          if (this.keyBytes) {
+            if (byte === QUOTE) {
+              this.key = Buffer.from(this.keyBytes).toString('utf-8');
+              this.keyBytes = null;
+              this.state = 'value';
+            } else {
+              this.keyBytes.push(byte);
+            }
+          } else if (byte === QUOTE) {
+            this.keyBytes = [];
+          }
+          break;
+
+        case 'value':
+          if (byte === COLON || byte <= 0x20) break;
+          if (this.key === 'nodes' || this.key === 'edges') {
+            this.state = 'numbers';
+            this.numberCount = 0;
+          } else if (this.key === 'strings') {
+            this.state = 'strings';
+          } else {
+            this.state = 'nested';
+            this.depth = 1;
+            this.captured = this.key === 'snapshot' ? [] : null;
+            start = i;
+          }
+          break;
+
+        case 'numbers':
+          if (byte >= DIGIT_0 && byte <= DIGIT_9) {
+            this.number =
+              (this.number < 0 ? 0 : this.number * 10) + byte - DIGIT_0;
+          } else {
+            if (this.number >= 0) this.pushNumber();
+            if (byte === CLOSE_BRACKET) {
+              // Handed over as is, the next array gets a new buffer
+              const values = this.numbers.subarray(0, this.numberCount);
+              this.numbers = new Uint32Array(INITIAL_NUMBERS);
+              if (this.key === 'nodes') this.nodes = values;
+              else this.edges = values;
+              this.state = 'key';
+            }
+          }
+          break;
+
+        case 'strings':
+          if (this.inString) {
+            if (this.escaped) {
+              this.escaped = false;
+            } else if (byte === BACKSLASH) {
+              this.escaped = true;
+            } else if (byte === QUOTE) {
+              this.stringParts.push(chunk.subarray(start, i + 1));
+              this.strings.push(
+                JSON.parse(Buffer.concat(this.stringParts).toString('utf-8')),
+              );
+              this.stringParts = [];
+              this.inString = false;
+            }
+          } else if (byte === QUOTE) {
+            this.inString = true;
+            start = i;
+          } else if (byte === CLOSE_BRACKET) {
+            this.state = 'key';
+          }
+          break;
+
+        case 'nested':
+          if (this.inString) {
+            if (this.escaped) this.escaped = false;
+            else if (byte === BACKSLASH) this.escaped = true;
+            else if (byte === QUOTE) this.inString = false;
+          } else if (byte === QUOTE) {
+            this.inString = true;
+          } else if (byte === OPEN_BRACKET || byte === OPEN_BRACE) {
+            this.depth++;
+          } else if (
+            (byte === CLOSE_BRACKET || byte === CLOSE_BRACE) &&
+            --this.depth === 0
+          ) {
+            if (this.captured) {
+              this.captured.push(chunk.subarray(start, i + 1));
+              this.snapshot = JSON.parse(
+                Buffer.concat(this.captured).toString('utf-8'),
+              );
+              this.captured = null;
+            }
+            this.state = 'key';
+          }
+          break;
+      }
+    }
+
+    // Values still open carry on in the next chunk
+    if (this.state === 'strings' && this.inString) {
+      this.stringParts.push(chunk.subarray(start));
+    } else if (this.state === 'nested' && this.captured) {
+      this.captured.push(chunk.subarray(start));
+    }
+  }
+
+  end(snapshotFile: string): RawHeapSnapshot {
+    if (!this.snapshot || !this.nodes || !this.edges) {
+      throw new Error(`${snapshotFile} is not a complete heap snapshot`);
+    }
+    return {
+      snapshot: this.snapshot,
+      nodes: this.nodes,
+      edges: this.edges,
+      strings: this.strings,
+    };
+  }
+
+  private pushNumber(): void {
+    if (this.numberCount === this.numbers.length) {
+      const grown = new Uint32Array(this.numbers.length * 2);
+      grown.set(this.numbers);
+      this.numbers = grown;
+    }
+    this.numbers[this.numberCount++] = this.number;
+    this.number = -1;
+  }
+}
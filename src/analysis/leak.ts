@@ -0,0 +1,86 @@
+import {MemoryMetrics} from '../measurers/memory';
+import {linearRegression} from './statistics';
+
+// Below this fit quality, growth is treated as noise rather than a trend
+const MIN_R_SQUARED = 0.5;
+
+// Fewer samples than this cannot support a trend either way
+const MIN_SAMPLES = 3;
+
+export type LeakVerdictResult = 'leak' | 'no-leak' | 'inconclusive';
+
+export interface LeakAnalysisOptions {
+  warmupIterations: number; // Leading iterations dropped from the fit
+  thresholdMBPerIteration: number; // Slope above which growth counts as a leak
+}
+
+export interface LeakVerdict {
+  verdict: LeakVerdictResult;
+  slopeMBPerIteration: number;
+  interceptMB: number;
+  rSquared: number;
+  sampleCount: number; // Samples the regression was fitted on
+  postGCOnly: boolean; // Whether only samples taken right after a forced GC were used
+  warmupIterations: number;
+  thresholdMBPerIteration: number;
+  minRSquared: number;
+}
+
+/**
+ * Fits heap size against iteration and decides whether memory keeps growing.
+ * Only samples taken right after a forced GC are used, since anything else
+ * also counts garbage that has not been collected yet. A series without them
+ * is still fitted, for information, but never called a leak.
+ */
+export function analyzeMemoryLeak(
+  measurements: MemoryMetrics[],
+  options: LeakAnalysisOptions,
+): LeakVerdict {
+  const series = measurements.map((m, index) => ({
+    iteration: m.iteration ?? index,
+    // Used heap tracks live objects, total heap mostly V8's reservations
+    heapMB: m.heapUsedMB ?? m.heapTotalMB,
+    afterGC: m.afterGC ?? false,
+  }));
+
+  const postGCOnly = series.some((sample) => sample.afterGC);
+
+  const samples = series.filter(
+    (sample) =>
+      sample.iteration >= options.warmupIterations &&
+      (!postGCOnly || sample.afterGC),
+  );
+
+  const {slope, intercept, rSquared} = linearRegression(
+    samples.map((sample) => sample.iteration),
+    samples.map((sample) => sample.heapMB),
+  );
+
+  let verdict: LeakVerdictResult;
+  if (!postGCOnly || samples.length < MIN_SAMPLES || Number.isNaN(slope)) {
+    verdict = 'inconclusive';
+  } else if (
+    slope > options.thresholdMBPerIteration &&
+    rSquared >= MIN_R_SQUARED
+  ) {
+    verdict = 'leak';
+  } else {
+    verdict = 'no-leak';
+  }
+
+  return {
+    verdict,
+    slopeMBPerIteration: round(slope),
+    interceptMB: round(intercept),
+    rSquared: round(rSquared),
+    sampleCount: samples.length,
+    postGCOnly,
+    warmupIterations: options.warmupIterations,
+    thresholdMBPerIteration: options.thresholdMBPerIteration,
+    minRSquared: MIN_R_SQUARED,
+  };
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(4));
+}
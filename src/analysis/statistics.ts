@@ -0,0 +1,263 @@
+export interface LinearRegression {
+  slope: number;
+  intercept: number;
+  rSquared: number; // Share of the variance of y explained by the fit, 0 to 1
+}
+
+export function mean(values: number[]): number {
+  if (values.length === 0) {
+    return NaN;
+  }
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Ordinary least squares fit of y = slope * x + intercept
+ */
+export function linearRegression(xs: number[], ys: number[]): LinearRegression {
+  if (xs.length !== ys.length) {
+    throw new Error('Regression needs as many x values as y values');
+  }
+  if (xs.length < 2) {
+    return {slope: NaN, intercept: NaN, rSquared: NaN};
+  }
+
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+
+  let sumXY = 0;
+  let sumXX = 0;
+  let sumYY = 0;
+  for (let i = 0; i < xs.length; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    sumXY += dx * dy;
+    sumXX += dx * dx;
+    sumYY += dy * dy;
+  }
+
+  if (sumXX === 0) {
+    return {slope: NaN, intercept: NaN, rSquared: NaN};
+  }
+
+  const slope = sumXY / sumXX;
+  const intercept = meanY - slope * meanX;
+  // A flat series is perfectly explained by a flat line
+  const rSquared = sumYY === 0 ? 1 : (sumXY * sumXY) / (sumXX * sumYY);
+
+  return {slope, intercept, rSquared};
+}
+
+/**
+ * Percentile with linear interpolation between closest ranks, p from 0 to 100
+ */
+export function percentile(values: number[], p: number): number {
+  if (values.length === 0) {
+    return NaN;
+  }
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (p / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
+export function median(values: number[]): number {
+  return percentile(values, 50);
+}
+
+/**
+ * Sample standard deviation, with n - 1 in the denominator
+ */
+export function standardDeviation(values: number[]): number {
+  if (values.length < 2) {
+    return NaN;
+  }
+  const valuesMean = mean(values);
+  const sumOfSquares = values.reduce(
+    (sum, value) => sum + (value - valuesMean) ** 2,
+    0,
+  );
+  return Math.sqrt(sumOfSquares / (values.length - 1));
+}
+
+// Two-sided 95% critical values of Student's t by degrees of freedom
+const T_CRITICAL_95 = [
+  NaN,
+  12.706,
+  4.303,
+  3.182,
+  2.776,
+  2.571,
+  2.447,
+  2.365,
+  2.306,
+  2.262,
+  2.228,
+  2.201,
+  2.179,
+  2.16,
+  2.145,
+  2.131,
+  2.12,
+  2.11,
+  2.101,
+  2.093,
+  2.086,
+  2.08,
+  2.074,
+  2.069,
+  2.064,
+  2.06,
+  2.056,
+  2.052,
+  2.048,
+  2.045,
+  2.042,
+];
+const Z_CRITICAL_95 = 1.96;
+
+/**
+ * 95% confidence interval of the mean, using Student's t for small samples
+ */
+export function confidenceInterval95(values: number[]): [number, number] {
+  if (values.length < 2) {
+    return [NaN, NaN];
+  }
+  const degreesOfFreedom = values.length - 1;
+  const critical = T_CRITICAL_95[degreesOfFreedom] ?? Z_CRITICAL_95;
+  const margin =
+    (critical * standardDeviation(values)) / Math.sqrt(values.length);
+  const valuesMean = mean(values);
+  return [valuesMean - margin, valuesMean + margin];
+}
+
+export interface MannWhitneyResult {
+  u: number; // U statistic of the first sample
+  pValue: number; // Two-sided
+}
+
+// Largest sample the exact U distribution is computed for, the normal
+// approximation is close enough beyond it
+const EXACT_U_MAX_RUNS = 20;
+
+/**
+ * Mann-Whitney U test of whether two samples come from the same distribution.
+ * Small samples without ties use the exact distribution of U, the others the
+ * normal approximation with tie and continuity correction.
+ */
+export function mannWhitneyU(a: number[], b: number[]): MannWhitneyResult {
+  const n1 = a.length;
+  const n2 = b.length;
+  if (n1 === 0 || n2 === 0) {
+    return {u: NaN, pValue: NaN};
+  }
+
+  const pooled = [
+    ...a.map((value) => ({value, first: true})),
+    ...b.map((value) => ({value, first: false})),
+  ].sort((x, y) => x.value - y.value);
+
+  // Tied values share the mean of their ranks
+  let rankSumA = 0;
+  let tieCorrection = 0;
+  for (let i = 0; i < pooled.length; ) {
+    let j = i;
+    while (j < pooled.length && pooled[j].value === pooled[i].value) j++;
+    const tied = j - i;
+    const rank = (i + 1 + j) / 2;
+    for (let k = i; k < j; k++) {
+      if (pooled[k].first) rankSumA += rank;
+    }
+    tieCorrection += tied ** 3 - tied;
+    i = j;
+  }
+
+  const u = rankSumA - (n1 * (n1 + 1)) / 2;
+
+  if (tieCorrection === 0 && n1 <= EXACT_U_MAX_RUNS && n2 <= EXACT_U_MAX_RUNS) {
+    const tail = exactUCdf(Math.min(u, n1 * n2 - u), n1, n2);
+    return {u, pValue: Math.min(1, 2 * tail)};
+  }
+
+  const n = n1 + n2;
+  const meanU = (n1 * n2) / 2;
+  const varianceU = ((n1 * n2) / 12) * (n + 1 - tieCorrection / (n * (n - 1)));
+
+  // All values equal, nothing tells the samples apart
+  if (varianceU <= 0) {
+    return {u, pValue: 1};
+  }
+
+  const z = Math.max(0, Math.abs(u - meanU) - 0.5) / Math.sqrt(varianceU);
+  return {u, pValue: Math.min(1, 2 * (1 - normalCdf(z)))};
+}
+
+/**
+ * Smallest two-sided p-value the Mann-Whitney U test can give for these
+ * sample sizes, reached when the samples do not overlap at all. With 3 runs
+ * on each side it is 0.1, so nothing is ever significant at 0.05.
+ */
+export function minimumMannWhitneyPValue(n1: number, n2: number): number {
+  if (n1 === 0 || n2 === 0) {
+    return NaN;
+  }
+  return Math.min(1, 2 / binomialCoefficient(n1 + n2, n1));
+}
+
+/**
+ * Probability that U is at most u when both samples come from the same
+ * distribution, counting the orderings of n1 + n2 untied values
+ */
+function exactUCdf(u: number, n1: number, n2: number): number {
+  // counts[j][k] = orderings of j first and m second values with U = k,
+  // built up one value of the second sample (m) at a time
+  const maxU = n1 * n2;
+  let counts: number[][] = Array.from({length: n1 + 1}, (_, j) =>
+    Array.from({length: maxU + 1}, (_, k) => (k === 0 ? 1 : 0)),
+  );
+  for (let m = 1; m <= n2; m++) {
+    const next = counts.map((row) => row.map(() => 0));
+    for (let j = 0; j <= n1; j++) {
+      for (let k = 0; k <= maxU; k++) {
+        // The largest value is either from the second sample, adding
+        // nothing to U, or from the first one, beating all m second values
+        next[j][k] = counts[j][k] + (j > 0 && k >= m ? next[j - 1][k - m] : 0);
+      }
+    }
+    counts = next;
+  }
+
+  const distribution = counts[n1];
+  let atMost = 0;
+  for (let k = 0; k <= Math.floor(u); k++) {
+    atMost += distribution[k];
+  }
+  return atMost / binomialCoefficient(n1 + n2, n1);
+}
+
+function binomialCoefficient(n: number, k: number): number {
+  let result = 1;
+  for (let i = 1; i <= k; i++) {
+    result = (result * (n - k + i)) / i;
+  }
+  return result;
+}
+
+/**
+ * Standard normal cumulative distribution, Abramowitz and Stegun 7.1.26
+ */
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) *
+      t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
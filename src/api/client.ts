@@ -0,0 +1,189 @@
+import {apiUrl, ProfilerConfig} from '../config';
+
+export interface User {
+  id: string;
+  username: string;
+}
+
+export interface Team {
+  id: string;
+  name: string;
+}
+
+export interface Channel {
+  id: string;
+  team_id: string;
+  name: string;
+  display_name: string;
+  delete_at: number; // Set once the channel is archived
+}
+
+export interface Post {
+  id: string;
+  channel_id: string;
+  root_id?: string; // The root post of the thread a reply belongs to
+  message: string;
+  file_ids?: string[];
+  type?: string; // Set on system messages, like joining the channel
+}
+
+// A page of posts, newest first
+export interface PostList {
+  order: string[];
+  posts: Record<string, Post>;
+}
+
+// Cookie the server sets on login with the CSRF token of the session
+const CSRF_COOKIE = 'MMCSRF';
+
+/**
+ * Class that calls the Mattermost REST API as the configured user
+ */
+export class MattermostClient {
+  private config: ProfilerConfig;
+  private token?: string;
+  private csrf?: string;
+
+  // A token from an earlier login is used as it is, without logging in
+  constructor(config: ProfilerConfig, token?: string) {
+    this.config = config;
+    this.token = token;
+  }
+
+  get sessionToken(): string | undefined {
+    return this.token;
+  }
+
+  // Token the webapp sends back with every write, undefined for access tokens
+  get csrfToken(): string | undefined {
+    return this.csrf;
+  }
+
+  /**
+   * Logs in with the configured personal access token or, without one, the
+   * user and password. The token is sent with every following request.
+   */
+  async login(): Promise<User> {
+    if (this.config.accessToken) {
+      this.token = this.config.accessToken;
+      return this.request<User>('GET', 'users/me');
+    }
+
+    const response = await this.send('POST', 'users/login', {
+      login_id: this.config.user,
+      password: this.config.password,
+    });
+    await this.check(response, 'POST', 'users/login');
+
+    this.token = response.headers.get('Token') ?? undefined;
+    if (!this.token) {
+      throw new Error('Login succeeded but the server returned no token');
+    }
+    this.csrf = readCookie(response, CSRF_COOKIE);
+    return response.json();
+  }
+
+  /**
+   * Calls an endpoint and returns its JSON body, failing on any error status
+   */
+  async request<T>(
+    method: string,
+    endpoint: string,
+    body?: unknown,
+  ): Promise<T> {
+    const response = await this.send(method, endpoint, body);
+    await this.check(response, method, endpoint);
+    return response.json();
+  }
+
+  /**
+   * Like request, but returns undefined when the resource does not exist
+   */
+  async find<T>(endpoint: string): Promise<T | undefined> {
+    const response = await this.send('GET', endpoint);
+    if (response.status === 404) {
+      return undefined;
+    }
+    await this.check(response, 'GET', endpoint);
+    return response.json();
+  }
+
+  /**
+   * Uploads a file to a channel and returns its id, to attach it to a post
+   */
+  async uploadFile(
+    channelId: string,
+    filename: string,
+    content: string,
+  ): Promise<string> {
+    const form = new FormData();
+    form.append('channel_id', channelId);
+    form.append('files', new Blob([content], {type: 'text/plain'}), filename);
+
+    const endpoint = 'files';
+    const response = await fetch(apiUrl(this.config, endpoint), {
+      method: 'POST',
+      headers: this.headers(),
+      body: form,
+    });
+    await this.check(response, 'POST', endpoint);
+
+    const result: {file_infos: Array<{id: string}>} = await response.json();
+    return result.file_infos[0].id;
+  }
+
+  private send(
+    method: string,
+    endpoint: string,
+    body?: unknown,
+  ): Promise<Response> {
+    return fetch(apiUrl(this.config, endpoint), {
+      method,
+      headers: {
+        ...this.headers(),
+        ...(body !== undefined ? {'Content-Type': 'application/json'} : {}),
+      },
+      body: body !== undefined ? JSON.stringify(body) : undefined,
+    });
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      // Marks the request as coming from a client rather than a browser form
+      'X-Requested-With': 'XMLHttpRequest',
+      ...(this.token ? {Authorization: `Bearer ${this.token}`} : {}),
+    };
+  }
+
+  private async check(
+    response: Response,
+    method: string,
+    endpoint: string,
+  ): Promise<void> {
+    if (response.ok) {
+      return;
+    }
+
+    // Mattermost explains errors in a JSON body with a message
+    let message = response.statusText;
+    try {
+      message = (await response.json()).message ?? message;
+    } catch {
+      // Not JSON, keep the status text
+    }
+    throw new Error(
+      `${method} ${endpoint} failed with ${response.status}: ${message}`,
+    );
+  }
+}
+
+function readCookie(response: Response, name: string): string | undefined {
+  for (const cookie of response.headers.getSetCookie()) {
+    const [pair] = cookie.split(';');
+    const separator = pair.indexOf('=');
+    if (pair.slice(0, separator).trim() === name) {
+      return pair.slice(separator + 1).trim();
+    }
+  }
+  return undefined;
+}
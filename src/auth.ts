@@ -0,0 +1,176 @@
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {Page} from 'puppeteer';
+import {MattermostClient} from './api/client';
+import {ProfilerConfig} from './config';
+
+// Sessions of earlier runs, readable by the current user only
+const SESSION_CACHE_FILE = path.join(
+  os.homedir(),
+  '.cache',
+  'mattermost-webapp-profiler',
+  'sessions.json',
+);
+
+// Local storage flags the webapp sets once "View in Browser" is chosen
+const LANDING_PAGE_FLAGS: Record<string, string> = {
+  __landingPageSeen__: 'true',
+  '__landing-preference__': 'browser',
+};
+
+export interface Session {
+  token: string; // Session token or personal access token
+  userId: string;
+  csrfToken?: string; // Unknown for personal access tokens
+}
+
+// Sessions of this process, so repeated runs and fresh contexts share one
+const sessions = new Map<string, Promise<Session>>();
+
+// Scripts injectSession added to each page, removed by clearSession
+const landingScripts = new WeakMap<Page, string>();
+
+/**
+ * Returns a session of the configured user, logging in through the API only
+ * when neither this process nor an earlier run has a valid one
+ */
+export function getSession(config: ProfilerConfig): Promise<Session> {
+  const key = sessionKey(config);
+  let session = sessions.get(key);
+  if (!session) {
+    session = createSession(config, key);
+    sessions.set(key, session);
+    // A failed login is tried again on the next call
+    session.catch(() => sessions.delete(key));
+  }
+  return session;
+}
+
+/**
+ * Logs the page in without going through the login form: the session
+ * cookies are set on the webapp origin and the "open in app" prompt is
+ * marked as answered. Call it before navigating to the webapp.
+ */
+export async function injectSession(
+  page: Page,
+  config: ProfilerConfig,
+): Promise<void> {
+  const session = await getSession(config);
+  const domain = new URL(config.baseUrl).hostname;
+
+  const cookies = [
+    {name: 'MMAUTHTOKEN', value: session.token, httpOnly: true},
+    {name: 'MMUSERID', value: session.userId},
+    ...(session.csrfToken ? [{name: 'MMCSRF', value: session.csrfToken}] : []),
+  ];
+  await page
+    .browserContext()
+    .setCookie(...cookies.map((cookie) => ({...cookie, domain, path: '/'})));
+
+  if (!landingScripts.has(page)) {
+    const {identifier} = await page.evaluateOnNewDocument((flags) => {
+      for (const [key, value] of Object.entries(flags)) {
+        localStorage.setItem(key, value);
+      }
+    }, LANDING_PAGE_FLAGS);
+    landingScripts.set(page, identifier);
+  }
+}
+
+/**
+ * Undoes injectSession and logs the page out, so the next navigation sees
+ * the webapp the way a new visitor does
+ */
+export async function clearSession(page: Page): Promise<void> {
+  const identifier = landingScripts.get(page);
+  if (identifier) {
+    await page.removeScriptToEvaluateOnNewDocument(identifier);
+    landingScripts.delete(page);
+  }
+
+  const client = await page.createCDPSession();
+  await client.send('Network.clearBrowserCookies');
+  await client.detach();
+
+  await page.evaluate(() => localStorage.clear());
+}
+
+async function createSession(
+  config: ProfilerConfig,
+  key: string,
+): Promise<Session> {
+  // Access tokens do not expire with a session, there is nothing to cache
+  if (config.accessToken) {
+    const user = await new MattermostClient(config).login();
+    console.log(`Authenticated as ${user.username} with an access token`);
+    return {token: config.accessToken, userId: user.id};
+  }
+
+  if (config.sessionCache) {
+    const cached = (await readSessionCache())[key];
+    if (cached && (await isSessionValid(config, cached))) {
+      console.log(`Reusing the cached session of ${config.user}`);
+      return cached;
+    }
+  }
+
+  const client = new MattermostClient(config);
+  const user = await client.login();
+  const session: Session = {
+    token: client.sessionToken!,
+    userId: user.id,
+    csrfToken: client.csrfToken,
+  };
+  console.log(`Logged in as ${user.username} through the API`);
+
+  if (config.sessionCache) {
+    await writeSessionCache(key, session);
+  }
+  return session;
+}
+
+function sessionKey(config: ProfilerConfig): string {
+  return `${config.accessToken ? 'access-token' : config.user}@${config.baseUrl}`;
+}
+
+/**
+ * Checks the server still accepts a session, it may have expired or been
+ * revoked since it was cached
+ */
+async function isSessionValid(
+  config: ProfilerConfig,
+  session: Session,
+): Promise<boolean> {
+  try {
+    await new MattermostClient(config, session.token).request(
+      'GET',
+      'users/me',
+    );
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function readSessionCache(): Promise<Record<string, Session>> {
+  try {
+    return JSON.parse(await fs.readFile(SESSION_CACHE_FILE, 'utf-8'));
+  } catch {
+    // Missing or unreadable, start over
+    return {};
+  }
+}
+
+async function writeSessionCache(key: string, session: Session): Promise<void> {
+  try {
+    const cache = await readSessionCache();
+    cache[key] = session;
+    await fs.mkdir(path.dirname(SESSION_CACHE_FILE), {recursive: true});
+    await fs.writeFile(SESSION_CACHE_FILE, JSON.stringify(cache, null, 2), {
+      mode: 0o600,
+    });
+  } catch (err) {
+    console.error(`Error caching the session in ${SESSION_CACHE_FILE}:`, err);
+  }
+}
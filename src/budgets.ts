@@ -0,0 +1,264 @@
+import * as fs from 'fs/promises';
+import {parse as parseYaml} from 'yaml';
+import {MetricAggregate} from './analysis/aggregate';
+import {
+  createFilePath,
+  ensureResultsDirectory,
+  recordArtifact,
+} from './measurers/toFile';
+
+// Statistic over the repeated runs a budget is checked against
+export type BudgetStatistic = 'median' | 'mean' | 'p95' | 'min' | 'max';
+
+const BUDGET_STATISTICS: BudgetStatistic[] = [
+  'median',
+  'mean',
+  'p95',
+  'min',
+  'max',
+];
+
+const DEFAULT_BUDGET_STATISTIC: BudgetStatistic = 'median';
+
+export interface Budget {
+  scenario: string;
+  metric: string; // As in the run metrics, e.g. memory.postGCHeapGrowthMB
+  max?: number;
+  min?: number;
+  stat: BudgetStatistic;
+}
+
+export type BudgetStatus = 'passed' | 'breached' | 'missing' | 'skipped';
+
+export interface BudgetResult {
+  budget: Budget;
+  value?: number;
+  status: BudgetStatus;
+  message: string;
+}
+
+/**
+ * Reads a JSON or YAML budgets file, keyed by scenario then metric:
+ *
+ *   switch-each-channel:
+ *     channelSwitch.timeToStable.max: {max: 2000, stat: p95}
+ */
+export async function loadBudgets(
+  budgetsPath: string,
+  knownScenarios: string[],
+): Promise<Budget[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(budgetsPath, 'utf-8');
+  } catch (err) {
+    throw new Error(`Could not read budgets file ${budgetsPath}: ${err}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = budgetsPath.endsWith('.json') ? JSON.parse(raw) : parseYaml(raw);
+  } catch (err) {
+    throw new Error(`Could not parse budgets file ${budgetsPath}: ${err}`);
+  }
+
+  if (!isObject(parsed)) {
+    throw new Error(`Budgets file ${budgetsPath} must contain an object`);
+  }
+
+  const budgets: Budget[] = [];
+  for (const [scenario, metrics] of Object.entries(parsed)) {
+    if (!knownScenarios.includes(scenario)) {
+      throw new Error(
+        `Unknown scenario "${scenario}" in budgets file ${budgetsPath}. Available scenarios: ${knownScenarios.join(', ')}`,
+      );
+    }
+    if (!isObject(metrics)) {
+      throw new Error(
+        `Budgets of ${scenario} in ${budgetsPath} must be an object of metrics`,
+      );
+    }
+
+    for (const [metric, limits] of Object.entries(metrics)) {
+      budgets.push(parseBudget(scenario, metric, limits, budgetsPath));
+    }
+  }
+
+  return budgets;
+}
+
+function parseBudget(
+  scenario: string,
+  metric: string,
+  limits: unknown,
+  budgetsPath: string,
+): Budget {
+  const where = `${scenario}.${metric} in ${budgetsPath}`;
+  if (!isObject(limits)) {
+    throw new Error(`Budget ${where} must be an object with max or min`);
+  }
+
+  const {max, min, stat = DEFAULT_BUDGET_STATISTIC, ...unknown} = limits;
+  const unknownKeys = Object.keys(unknown);
+  if (unknownKeys.length > 0) {
+    throw new Error(
+      `Unknown key "${unknownKeys[0]}" in budget ${where}. Expected max, min or stat`,
+    );
+  }
+  if (max === undefined && min === undefined) {
+    throw new Error(`Budget ${where} needs a max or a min`);
+  }
+  for (const [key, value] of Object.entries({max, min})) {
+    if (value !== undefined && typeof value !== 'number') {
+      throw new Error(`"${key}" of budget ${where} must be a number`);
+    }
+  }
+  if (!BUDGET_STATISTICS.includes(stat as BudgetStatistic)) {
+    throw new Error(
+      `"stat" of budget ${where} must be one of ${BUDGET_STATISTICS.join(', ')}`,
+    );
+  }
+
+  return {
+    scenario,
+    metric,
+    max: max as number | undefined,
+    min: min as number | undefined,
+    stat: stat as BudgetStatistic,
+  };
+}
+
+/**
+ * Checks every budget against the aggregated metrics of its scenario.
+ * Budgets of scenarios that did not run are skipped, a metric the scenario
+ * did not record counts as a breach so typos do not pass silently.
+ */
+export function evaluateBudgets(
+  budgets: Budget[],
+  aggregates: Map<string, MetricAggregate[]>,
+): BudgetResult[] {
+  return budgets.map((budget) => {
+    const scenarioAggregates = aggregates.get(budget.scenario);
+    if (!scenarioAggregates) {
+      return {budget, status: 'skipped', message: 'Scenario did not run'};
+    }
+
+    const aggregate = scenarioAggregates.find(
+      (a) => a.metric === budget.metric,
+    );
+    if (!aggregate) {
+      return {
+        budget,
+        status: 'missing',
+        message: `Metric ${budget.metric} was not recorded`,
+      };
+    }
+
+    const value = aggregate[budget.stat];
+    const limits = describeLimits(budget);
+    if (budget.max !== undefined && value > budget.max) {
+      return {
+        budget,
+        value,
+        status: 'breached',
+        message: `${budget.stat} ${value} is above the budget (${limits})`,
+      };
+    }
+    if (budget.min !== undefined && value < budget.min) {
+      return {
+        budget,
+        value,
+        status: 'breached',
+        message: `${budget.stat} ${value} is below the budget (${limits})`,
+      };
+    }
+
+    return {
+      budget,
+      value,
+      status: 'passed',
+      message: `${budget.stat} ${value} within ${limits}`,
+    };
+  });
+}
+
+/**
+ * Writes the budget results as JUnit XML, one testcase per budget and one
+ * testsuite per scenario. Returns the path of the file.
+ */
+export async function saveBudgetsJunit(
+  results: BudgetResult[],
+  filename: string,
+): Promise<string> {
+  await ensureResultsDirectory();
+  const outputFile = createFilePath(filename, '.xml');
+
+  const scenarios = Array.from(new Set(results.map((r) => r.budget.scenario)));
+  const suites = scenarios.map((scenario) => {
+    const suiteResults = results.filter((r) => r.budget.scenario === scenario);
+    const count = (status: BudgetStatus) =>
+      suiteResults.filter((r) => r.status === status).length;
+
+    const testcases = suiteResults.map((result) => {
+      const name = escapeXml(`${result.budget.metric} ${result.budget.stat}`);
+      return `    <testcase classname="${escapeXml(scenario)}" name="${name}">${testcaseBody(result)}</testcase>`;
+    });
+
+    return [
+      `  <testsuite name="${escapeXml(scenario)}" tests="${suiteResults.length}" failures="${count('breached')}" errors="${count('missing')}" skipped="${count('skipped')}">`,
+      ...testcases,
+      '  </testsuite>',
+    ].join('\n');
+  });
+
+  const failures = results.filter((r) => r.status === 'breached').length;
+  const errors = results.filter((r) => r.status === 'missing').length;
+  const xml = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="performance budgets" tests="${results.length}" failures="${failures}" errors="${errors}">`,
+    ...suites,
+    '</testsuites>',
+    '',
+  ].join('\n');
+
+  await fs.writeFile(outputFile, xml);
+  recordArtifact(outputFile);
+  console.log(`Budget results saved to ${outputFile}`);
+
+  return outputFile;
+}
+
+function testcaseBody(result: BudgetResult): string {
+  const message = escapeXml(result.message);
+  switch (result.status) {
+    case 'breached':
+      return `<failure message="${message}" type="budget"/>`;
+    case 'missing':
+      return `<error message="${message}" type="missing-metric"/>`;
+    case 'skipped':
+      return `<skipped message="${message}"/>`;
+    default:
+      return `<system-out>${message}</system-out>`;
+  }
+}
+
+function describeLimits(budget: Budget): string {
+  return [
+    budget.min !== undefined ? `min ${budget.min}` : '',
+    budget.max !== undefined ? `max ${budget.max}` : '',
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
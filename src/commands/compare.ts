@@ -0,0 +1,80 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {loadFromCsv} from '../measurers/toFile';
+import {loadRunManifest} from '../runManifest';
+import {
+  CompareOptions,
+  compareRuns,
+  formatComparisonMarkdown,
+  ScenarioRunMetrics,
+} from '../analysis/compare';
+
+const RUN_METRICS_ARTIFACT = /-run-metrics-.*\.csv$/;
+
+/**
+ * Compares the runs of a baseline and a candidate result set, prints the
+ * table and writes it as Markdown.
+ * Returns the path of the Markdown file.
+ */
+export async function compareCommand(
+  baselineRun: string,
+  candidateRun: string,
+  options: CompareOptions & {output?: string},
+): Promise<string> {
+  const baseline = await loadScenarioRunMetrics(baselineRun);
+  const candidate = await loadScenarioRunMetrics(candidateRun);
+
+  const comparisons = compareRuns(baseline.metrics, candidate.metrics, options);
+  const markdown = formatComparisonMarkdown(
+    comparisons,
+    baseline.runId,
+    candidate.runId,
+    options,
+  );
+  console.log(markdown);
+
+  // Next to the candidate results by default, it is what gets reviewed
+  const outputFile =
+    options.output ??
+    path.join(candidate.directory, `compare-${baseline.runId}.md`);
+  await fs.writeFile(outputFile, markdown);
+  console.log(`Comparison saved to ${outputFile}`);
+
+  return outputFile;
+}
+
+/**
+ * Reads the per-run metrics of every scenario of a run, found through its manifest
+ */
+async function loadScenarioRunMetrics(
+  run: string,
+): Promise<{runId: string; directory: string; metrics: ScenarioRunMetrics}> {
+  const {directory, manifest} = await loadRunManifest(run);
+  const metrics: ScenarioRunMetrics = new Map();
+
+  for (const scenario of manifest.scenarios) {
+    const artifact = scenario.artifacts.find((file) =>
+      RUN_METRICS_ARTIFACT.test(file),
+    );
+    if (!artifact) {
+      console.log(`No run metrics for ${scenario.name} in ${manifest.runId}`);
+      continue;
+    }
+
+    const rows = await loadFromCsv(path.join(directory, artifact));
+    metrics.set(
+      scenario.name,
+      rows.map((row) => {
+        const values: Record<string, number> = {};
+        for (const [key, value] of Object.entries(row)) {
+          if (key !== 'run' && value !== '') {
+            values[key] = Number(value);
+          }
+        }
+        return values;
+      }),
+    );
+  }
+
+  return {runId: manifest.runId, directory, metrics};
+}
@@ -0,0 +1,72 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  createAndSaveToFiles,
+  openRunDirectory,
+  takeArtifacts,
+} from '../measurers/toFile';
+import {readStream, STREAM_EXTENSION} from '../measurers/resultStream';
+import {MEMORY_COLUMNS} from '../measurers/memory';
+import {loadRunManifest, saveRunManifest} from '../runManifest';
+
+const MEMORY_ARTIFACT = /-memory-profile-/;
+
+/**
+ * Writes the CSV of every stream a crashed run left in its directory and
+ * marks the scenarios that never ended as interrupted in its manifest.
+ * Returns the paths of the recovered files.
+ */
+export async function recoverCommand(run: string): Promise<string[]> {
+  const {directory, manifest} = await loadRunManifest(run);
+  openRunDirectory(directory);
+  takeArtifacts();
+
+  const streams = (await fs.readdir(directory))
+    .filter((file) => file.endsWith(STREAM_EXTENSION))
+    .sort();
+  if (streams.length === 0) {
+    console.log(`No partial results to recover in ${directory}`);
+  }
+
+  const recovered: string[] = [];
+  for (const file of streams) {
+    const streamFile = path.join(directory, file);
+    const rows = await readStream<Record<string, any>>(streamFile);
+    // Measurers only sort their samples once they stop
+    if (rows.every((row) => typeof row.timestamp === 'number')) {
+      rows.sort((a, b) => a.timestamp - b.timestamp);
+    }
+
+    const filename = path.basename(file, STREAM_EXTENSION);
+    const columns = MEMORY_ARTIFACT.test(filename) ? MEMORY_COLUMNS : [];
+    const saved = await createAndSaveToFiles(rows, filename, 'csv', columns);
+    if (!saved) {
+      console.error(`Could not recover ${streamFile}, keeping it`);
+      continue;
+    }
+    await fs.unlink(streamFile);
+    recovered.push(saved);
+    console.log(`Recovered ${rows.length} samples into ${saved}`);
+
+    // Files belong to the scenario whose name they start with
+    const scenario = manifest.scenarios
+      .filter((s) => filename.startsWith(`${s.name}-`))
+      .sort((a, b) => b.name.length - a.name.length)[0];
+    const artifacts = scenario ? scenario.artifacts : manifest.artifacts;
+    for (const artifact of takeArtifacts()) {
+      if (!artifacts.includes(artifact)) {
+        artifacts.push(artifact);
+      }
+    }
+  }
+
+  for (const scenario of manifest.scenarios) {
+    if (scenario.status === 'running') {
+      scenario.status = 'interrupted';
+      console.log(`Scenario ${scenario.name} was interrupted`);
+    }
+  }
+  await saveRunManifest(directory, manifest);
+
+  return recovered;
+}
@@ -0,0 +1,331 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {loadFromCsv} from '../measurers/toFile';
+import {
+  loadRunManifest,
+  RunManifestData,
+  ScenarioManifest,
+} from '../runManifest';
+import {
+  Annotation,
+  Bar,
+  barChart,
+  escapeHtml,
+  lineChart,
+  Series,
+} from '../report/charts';
+import {definitionList, reportPage, table} from '../report/html';
+import {median} from '../analysis/statistics';
+
+const REPORT_FILENAME = 'report.html';
+
+// Raw files a scenario section is built from, by artifact name
+const ARTIFACT_PATTERNS = {
+  memory: /-memory-profile-.*\.csv$/,
+  frameRate: /-framerate-.*\.csv$/,
+  frameTiming: /-frametiming-.*\.csv$/,
+  aggregate: /-aggregate-.*\.csv$/,
+};
+
+const RUN_SUFFIX = /-run(\d+)\.csv$/;
+
+type Row = Record<string, string>;
+
+interface RunRows {
+  run: number;
+  memory: Row[];
+  frames: Row[];
+}
+
+/**
+ * Turns a run's results into one self-contained HTML file.
+ * Returns the path of the report.
+ */
+export async function reportCommand(
+  run: string,
+  options: {output?: string},
+): Promise<string> {
+  const {directory, manifest} = await loadRunManifest(run);
+
+  const sections: string[] = [];
+  for (const scenario of manifest.scenarios) {
+    sections.push(await scenarioSection(directory, scenario));
+  }
+
+  const title = `Performance report ${manifest.runId}`;
+  const html = reportPage(
+    title,
+    [`<h1>${escapeHtml(title)}</h1>`, runSummary(manifest), ...sections].join(
+      '\n',
+    ),
+  );
+
+  const outputFile = options.output ?? path.join(directory, REPORT_FILENAME);
+  await fs.writeFile(outputFile, html);
+  console.log(`Report saved to ${outputFile}`);
+
+  return outputFile;
+}
+
+function runSummary(manifest: RunManifestData): string {
+  const {versions} = manifest;
+  return definitionList({
+    Started: manifest.startedAt,
+    Ended: manifest.endedAt,
+    Server: manifest.config.baseUrl,
+    'Server version': versions.server
+      ? `${versions.server.version} (build ${versions.server.buildNumber})`
+      : undefined,
+    Browser: versions.browser,
+    Puppeteer: versions.puppeteer,
+    Arguments: manifest.args.join(' '),
+  });
+}
+
+async function scenarioSection(
+  directory: string,
+  scenario: ScenarioManifest,
+): Promise<string> {
+  const runs = await loadRuns(directory, scenario.artifacts);
+  const parts = [
+    `<h2>${escapeHtml(scenario.name)}</h2>`,
+    definitionList({
+      Status: scenario.status,
+      Error: scenario.error,
+      Runs: scenario.runs,
+      Params: Object.entries(scenario.params)
+        .map(([key, value]) => `${key}=${value}`)
+        .join(', '),
+    }),
+  ];
+
+  const aggregateFile = scenario.artifacts.find((file) =>
+    ARTIFACT_PATTERNS.aggregate.test(file),
+  );
+  if (aggregateFile) {
+    parts.push(
+      '<h3>Summary</h3>',
+      table(await loadFromCsv(path.join(directory, aggregateFile))),
+    );
+  }
+
+  parts.push(...timeSeriesCharts(runs));
+  parts.push(channelSwitchChart(runs));
+
+  return parts.filter(Boolean).join('\n');
+}
+
+/**
+ * Reads the memory and frame CSVs of a scenario, grouped by repeated run
+ */
+async function loadRuns(
+  directory: string,
+  artifacts: string[],
+): Promise<RunRows[]> {
+  const runs = new Map<number, RunRows>();
+  const runOf = (file: string) => {
+    const run = Number(RUN_SUFFIX.exec(file)?.[1] ?? 1);
+    if (!runs.has(run)) {
+      runs.set(run, {run, memory: [], frames: []});
+    }
+    return runs.get(run)!;
+  };
+
+  for (const file of artifacts) {
+    if (ARTIFACT_PATTERNS.memory.test(file)) {
+      runOf(file).memory = await loadFromCsv(path.join(directory, file));
+    } else if (
+      ARTIFACT_PATTERNS.frameRate.test(file) ||
+      ARTIFACT_PATTERNS.frameTiming.test(file)
+    ) {
+      runOf(file).frames = await loadFromCsv(path.join(directory, file));
+    }
+  }
+
+  return Array.from(runs.values()).sort((a, b) => a.run - b.run);
+}
+
+/**
+ * Heap, DOM node and frame charts with one line per run. Phase boundaries
+ * and the scroll position are taken from the first run.
+ */
+function timeSeriesCharts(runs: RunRows[]): string[] {
+  if (runs.length === 0) {
+    return [];
+  }
+
+  const origins = new Map(runs.map((run) => [run.run, runOrigin(run)]));
+  const seconds = (run: RunRows, row: Row) =>
+    (Number(row.timestamp) - origins.get(run.run)!) / 1000;
+  const seriesOf = (
+    rowsOf: (run: RunRows) => Row[],
+    value: (row: Row) => number | undefined,
+  ): Series[] =>
+    runs
+      .map((run) => ({
+        label: runs.length > 1 ? `run ${run.run}` : 'value',
+        points: rowsOf(run)
+          .map((row): [number, number | undefined] => [
+            seconds(run, row),
+            value(row),
+          ])
+          .filter((point): point is [number, number] =>
+            Number.isFinite(point[1]),
+          ),
+      }))
+      .filter((series) => series.points.length > 0);
+
+  const firstRun = runs[0];
+  const annotations = phaseAnnotations(firstRun.memory, (row) =>
+    seconds(firstRun, row),
+  );
+  const scrollPoints = firstRun.memory
+    .filter((row) => numberOrUndefined(row.scrollPosition) !== undefined)
+    .map((row): [number, number] => [
+      seconds(firstRun, row),
+      Number(row.scrollPosition),
+    ]);
+  const overlay =
+    scrollPoints.length > 0
+      ? {
+          label: 'scroll position',
+          yLabel: 'Scroll top (px)',
+          points: scrollPoints,
+        }
+      : undefined;
+
+  const charts = [
+    lineChart({
+      title: 'JS heap',
+      xLabel: 'Time (s)',
+      yLabel: 'Heap used (MB)',
+      series: seriesOf(
+        (run) => run.memory,
+        (row) => numberOrUndefined(row.heapUsedMB || row.heapTotalMB),
+      ),
+      overlay,
+      annotations,
+    }),
+    lineChart({
+      title: 'DOM nodes',
+      xLabel: 'Time (s)',
+      yLabel: 'Nodes',
+      series: seriesOf(
+        (run) => run.memory,
+        (row) => numberOrUndefined(row.nodes),
+      ),
+      overlay,
+      annotations,
+    }),
+    lineChart({
+      title: 'Frame rate',
+      xLabel: 'Time (s)',
+      yLabel: 'Frames per second',
+      series: seriesOf(
+        (run) => run.frames,
+        (row) => numberOrUndefined(row.frameRate),
+      ),
+      overlay,
+      annotations,
+    }),
+    lineChart({
+      title: 'Frame time',
+      xLabel: 'Time (s)',
+      yLabel: 'Frame time (ms)',
+      series: seriesOf(
+        (run) => run.frames,
+        (row) => numberOrUndefined(row.frameTime),
+      ),
+      overlay,
+      annotations,
+    }),
+  ];
+
+  return charts.filter(Boolean);
+}
+
+/**
+ * Channel changes and forced garbage collections along a memory series
+ */
+function phaseAnnotations(
+  rows: Row[],
+  seconds: (row: Row) => number,
+): Annotation[] {
+  const annotations: Annotation[] = [];
+  let previousChannel: string | undefined;
+
+  for (const row of rows) {
+    const channel = row.channelAriaLabel || row.channel || row.channelId;
+    if (channel && channel !== previousChannel) {
+      annotations.push({
+        x: seconds(row),
+        label: channel.replace(/^sidebarItem_/, ''),
+        kind: 'channel',
+      });
+      previousChannel = channel;
+    }
+    if (row.afterGC === 'true') {
+      annotations.push({x: seconds(row), label: 'GC', kind: 'gc'});
+    }
+  }
+
+  return annotations;
+}
+
+/**
+ * Per-channel switch latency, the median over all runs
+ */
+function channelSwitchChart(runs: RunRows[]): string {
+  const timings = new Map<string, {stable: number[]; firstPost: number[]}>();
+  for (const run of runs) {
+    for (const row of run.memory) {
+      const stable = numberOrUndefined(row.timeToStable);
+      if (!row.channelAriaLabel || stable === undefined) continue;
+
+      const timing = timings.get(row.channelAriaLabel) ?? {
+        stable: [],
+        firstPost: [],
+      };
+      timing.stable.push(stable);
+      const firstPost = numberOrUndefined(row.timeToFirstPost);
+      if (firstPost !== undefined) timing.firstPost.push(firstPost);
+      timings.set(row.channelAriaLabel, timing);
+    }
+  }
+
+  const bars: Bar[] = Array.from(timings.entries()).map(([label, timing]) => ({
+    label,
+    value: median(timing.stable),
+    innerValue:
+      timing.firstPost.length > 0 ? median(timing.firstPost) : undefined,
+  }));
+
+  return barChart({
+    title: 'Channel switch latency',
+    unit: 'ms',
+    valueLabel: 'time to stable',
+    innerValueLabel: 'time to first post',
+    bars,
+  });
+}
+
+/**
+ * Earliest timestamp of a run, the zero of its time axis
+ */
+function runOrigin(run: RunRows): number {
+  const timestamps = [...run.memory, ...run.frames]
+    .map((row) => Number(row.timestamp))
+    .filter(Number.isFinite);
+  // Not spread into Math.min, frame timings are too many arguments
+  return timestamps.length > 0
+    ? timestamps.reduce((min, value) => Math.min(min, value))
+    : 0;
+}
+
+function numberOrUndefined(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
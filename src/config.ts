@@ -0,0 +1,383 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {parse as parseYaml} from 'yaml';
+import {
+  FRAME_MEASUREMENT_MODES,
+  FrameMeasurementMode,
+} from './measurers/frameMeasurer';
+
+export interface ProfilerConfig {
+  baseUrl: string; // Root URL of the Mattermost server, e.g. http://localhost:8065
+  team: string; // Team name as it appears in the webapp URL
+  channel: string; // Channel name the webapp is opened on
+  secondaryChannel: string; // Second channel used by the two-channel scenarios
+  user: string; // Username or email used to log in
+  password: string;
+  accessToken: string; // Personal access token, used instead of the password when set
+  sessionCache: boolean; // Reuse the API session of earlier runs
+  headless: boolean;
+  leakThresholdMB: number; // Heap growth per iteration above which a leak is reported
+  leakWarmupIterations: number; // Iterations ignored by the leak analysis
+  frameMeasurement: FrameMeasurementMode;
+}
+
+/**
+ * Options coming from the command line, already parsed by commander
+ */
+export interface CliConfigOptions {
+  config?: string;
+  baseUrl?: string;
+  team?: string;
+  channel?: string;
+  user?: string;
+  passwordEnv?: string;
+  accessTokenEnv?: string;
+  sessionCache?: boolean;
+  headless?: boolean;
+  leakThreshold?: string;
+  leakWarmup?: string;
+  frameMode?: string;
+}
+
+type ConfigValueType = 'string' | 'boolean' | 'number';
+
+interface ConfigField {
+  type: ConfigValueType;
+  env?: string; // Environment variable overriding the field
+  values?: readonly string[]; // Allowed values of a string field
+}
+
+// Schema every config source is checked against
+const CONFIG_SCHEMA: Record<keyof ProfilerConfig, ConfigField> = {
+  baseUrl: {type: 'string', env: 'MM_PROFILER_BASE_URL'},
+  team: {type: 'string', env: 'MM_PROFILER_TEAM'},
+  channel: {type: 'string', env: 'MM_PROFILER_CHANNEL'},
+  secondaryChannel: {type: 'string', env: 'MM_PROFILER_SECONDARY_CHANNEL'},
+  user: {type: 'string', env: 'MM_PROFILER_USER'},
+  password: {type: 'string', env: 'MM_PROFILER_PASSWORD'},
+  accessToken: {type: 'string', env: 'MM_PROFILER_ACCESS_TOKEN'},
+  sessionCache: {type: 'boolean', env: 'MM_PROFILER_SESSION_CACHE'},
+  headless: {type: 'boolean', env: 'MM_PROFILER_HEADLESS'},
+  leakThresholdMB: {type: 'number', env: 'MM_PROFILER_LEAK_THRESHOLD_MB'},
+  leakWarmupIterations: {type: 'number', env: 'MM_PROFILER_LEAK_WARMUP'},
+  frameMeasurement: {
+    type: 'string',
+    env: 'MM_PROFILER_FRAME_MODE',
+    values: FRAME_MEASUREMENT_MODES,
+  },
+};
+
+// Keys accepted in a config file on top of the schema fields, naming the
+// environment variable a secret is read from
+const SECRET_ENV_KEYS: Array<{
+  key: 'password' | 'accessToken';
+  envKey: string;
+  secret: string; // What the variable holds, for error messages
+}> = [
+  {key: 'password', envKey: 'passwordEnv', secret: 'password'},
+  {key: 'accessToken', envKey: 'accessTokenEnv', secret: 'access token'},
+];
+
+// Defaults match the sample data of a local Mattermost development server
+const DEFAULT_CONFIG: ProfilerConfig = {
+  baseUrl: 'http://localhost:8065',
+  team: 'team-au5hif5xh3gctgbfasrhq8dt1o',
+  channel: 'town-square',
+  secondaryChannel: 'off-topic',
+  user: 'sysadmin',
+  password: 'Sys@dmin-sample1',
+  accessToken: '',
+  sessionCache: true,
+  headless: false,
+  leakThresholdMB: 0.1,
+  leakWarmupIterations: 3,
+  frameMeasurement: 'fps',
+};
+
+const CONFIG_PATH_ENV = 'MM_PROFILER_CONFIG';
+
+// Files picked up from the working directory when no config path is given
+const DEFAULT_CONFIG_FILES = [
+  'profiler.config.json',
+  'profiler.config.yaml',
+  'profiler.config.yml',
+];
+
+/**
+ * Resolves the profiler configuration.
+ * Sources are merged in this order, later ones winning:
+ * defaults, config file, environment variables, command line flags
+ */
+export async function loadConfig(
+  cliOptions: CliConfigOptions,
+): Promise<ProfilerConfig> {
+  const env = process.env;
+
+  const configPath = await findConfigFile(
+    cliOptions.config ?? env[CONFIG_PATH_ENV],
+  );
+  const fileConfig = configPath ? await readConfigFile(configPath) : {};
+  const envConfig = readEnvConfig(env);
+  const cliConfig = readCliConfig(cliOptions, env);
+
+  const config = {...DEFAULT_CONFIG, ...fileConfig, ...envConfig, ...cliConfig};
+  validateConfig(config);
+
+  return config;
+}
+
+/**
+ * Builds the URL of a channel in the configured team
+ */
+export function channelUrl(config: ProfilerConfig, channel: string): string {
+  return new URL(
+    `${encodeURIComponent(config.team)}/channels/${encodeURIComponent(channel)}`,
+    withTrailingSlash(config.baseUrl),
+  ).toString();
+}
+
+/**
+ * URL of a REST API endpoint, e.g. apiUrl(config, 'config/client?format=old')
+ */
+export function apiUrl(config: ProfilerConfig, endpoint: string): string {
+  return new URL(
+    `api/v4/${endpoint}`,
+    withTrailingSlash(config.baseUrl),
+  ).toString();
+}
+
+function withTrailingSlash(url: string): string {
+  return url.endsWith('/') ? url : `${url}/`;
+}
+
+async function findConfigFile(
+  explicitPath: string | undefined,
+): Promise<string | undefined> {
+  if (explicitPath) {
+    return path.resolve(explicitPath);
+  }
+
+  for (const candidate of DEFAULT_CONFIG_FILES) {
+    const candidatePath = path.join(process.cwd(), candidate);
+    try {
+      await fs.access(candidatePath);
+      return candidatePath;
+    } catch {
+      // Not present, try the next one
+    }
+  }
+
+  return undefined;
+}
+
+async function readConfigFile(
+  configPath: string,
+): Promise<Partial<ProfilerConfig>> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(configPath, 'utf-8');
+  } catch (err) {
+    throw new Error(`Could not read config file ${configPath}: ${err}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = configPath.endsWith('.json') ? JSON.parse(raw) : parseYaml(raw);
+  } catch (err) {
+    throw new Error(`Could not parse config file ${configPath}: ${err}`);
+  }
+
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error(`Config file ${configPath} must contain an object`);
+  }
+
+  const fields: Record<string, unknown> = {...parsed};
+  const secrets: Partial<ProfilerConfig> = {};
+  for (const {key, envKey, secret} of SECRET_ENV_KEYS) {
+    const name = fields[envKey];
+    delete fields[envKey];
+    if (name === undefined) {
+      continue;
+    }
+    if (typeof name !== 'string') {
+      throw new Error(
+        `"${envKey}" in config file ${configPath} must be a string`,
+      );
+    }
+    secrets[key] = readSecretEnv(name, process.env, secret);
+  }
+
+  return {...checkFields(fields, `config file ${configPath}`), ...secrets};
+}
+
+function readEnvConfig(env: NodeJS.ProcessEnv): Partial<ProfilerConfig> {
+  const values: Record<string, unknown> = {};
+
+  for (const [key, field] of Object.entries(CONFIG_SCHEMA)) {
+    const value = field.env ? env[field.env] : undefined;
+    if (value === undefined || value === '') {
+      continue;
+    }
+    values[key] = parseValue(value, field.type, field.env!);
+  }
+
+  return checkFields(values, 'environment');
+}
+
+function readCliConfig(
+  options: CliConfigOptions,
+  env: NodeJS.ProcessEnv,
+): Partial<ProfilerConfig> {
+  const cliConfig: Partial<ProfilerConfig> = {};
+
+  if (options.baseUrl !== undefined) cliConfig.baseUrl = options.baseUrl;
+  if (options.team !== undefined) cliConfig.team = options.team;
+  if (options.channel !== undefined) cliConfig.channel = options.channel;
+  if (options.user !== undefined) cliConfig.user = options.user;
+  if (options.headless !== undefined) cliConfig.headless = options.headless;
+  if (options.leakThreshold !== undefined) {
+    cliConfig.leakThresholdMB = parseNumber(
+      options.leakThreshold,
+      '--leak-threshold',
+    );
+  }
+  if (options.leakWarmup !== undefined) {
+    cliConfig.leakWarmupIterations = parseNumber(
+      options.leakWarmup,
+      '--leak-warmup',
+    );
+  }
+  if (options.frameMode !== undefined) {
+    Object.assign(
+      cliConfig,
+      checkFields({frameMeasurement: options.frameMode}, '--frame-mode'),
+    );
+  }
+  if (options.passwordEnv !== undefined) {
+    cliConfig.password = readSecretEnv(options.passwordEnv, env, 'password');
+  }
+  if (options.accessTokenEnv !== undefined) {
+    cliConfig.accessToken = readSecretEnv(
+      options.accessTokenEnv,
+      env,
+      'access token',
+    );
+  }
+  // Commander defaults the flag to true, only turning it off overrides
+  if (options.sessionCache === false) cliConfig.sessionCache = false;
+
+  return cliConfig;
+}
+
+function readSecretEnv(
+  name: string,
+  env: NodeJS.ProcessEnv,
+  secret: string,
+): string {
+  const value = env[name];
+  if (!value) {
+    throw new Error(
+      `Environment variable ${name} holding the ${secret} is not set`,
+    );
+  }
+  return value;
+}
+
+function parseValue(
+  value: string,
+  type: ConfigValueType,
+  name: string,
+): string | boolean | number {
+  switch (type) {
+    case 'boolean':
+      return parseBoolean(value, name);
+    case 'number':
+      return parseNumber(value, name);
+    default:
+      return value;
+  }
+}
+
+function parseNumber(value: string, name: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || Number.isNaN(parsed)) {
+    throw new Error(`${name} must be a number, got "${value}"`);
+  }
+  return parsed;
+}
+
+function parseBoolean(value: string, name: string): boolean {
+  const normalized = value.trim().toLowerCase();
+  if (['1', 'true', 'yes'].includes(normalized)) return true;
+  if (['0', 'false', 'no'].includes(normalized)) return false;
+  throw new Error(`${name} must be a boolean, got "${value}"`);
+}
+
+/**
+ * Checks values from one source against the schema
+ */
+function checkFields(
+  values: Record<string, unknown>,
+  source: string,
+): Partial<ProfilerConfig> {
+  for (const [key, value] of Object.entries(values)) {
+    const field = CONFIG_SCHEMA[key as keyof ProfilerConfig];
+    if (!field) {
+      throw new Error(`Unknown config key "${key}" in ${source}`);
+    }
+    if (typeof value !== field.type) {
+      throw new Error(
+        `Config key "${key}" in ${source} must be a ${field.type}, got ${typeof value}`,
+      );
+    }
+    if (field.values && !field.values.includes(value as string)) {
+      throw new Error(
+        `Config key "${key}" in ${source} must be one of ${field.values.join(', ')}, got "${value}"`,
+      );
+    }
+  }
+
+  return values as Partial<ProfilerConfig>;
+}
+
+/**
+ * Checks the merged configuration is usable
+ */
+function validateConfig(config: ProfilerConfig): void {
+  for (const key of ['baseUrl', 'team', 'channel', 'user'] as const) {
+    if (!config[key]) {
+      throw new Error(`Config key "${key}" must not be empty`);
+    }
+  }
+
+  if (
+    !Number.isInteger(config.leakWarmupIterations) ||
+    config.leakWarmupIterations < 0
+  ) {
+    throw new Error(
+      `Config key "leakWarmupIterations" must be a non-negative integer, got ${config.leakWarmupIterations}`,
+    );
+  }
+  if (!(config.leakThresholdMB > 0)) {
+    throw new Error(
+      `Config key "leakThresholdMB" must be greater than 0, got ${config.leakThresholdMB}`,
+    );
+  }
+
+  let url: URL;
+  try {
+    url = new URL(config.baseUrl);
+  } catch {
+    throw new Error(
+      `Config key "baseUrl" is not a valid URL: ${config.baseUrl}`,
+    );
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new Error(
+      `Config key "baseUrl" must be an http(s) URL: ${config.baseUrl}`,
+    );
+  }
+}
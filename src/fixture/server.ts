@@ -0,0 +1,432 @@
+import * as http from 'http';
+import {AddressInfo} from 'net';
+import {fixturePage} from './webapp';
+
+// Version reported by the stand-in, so runs against it are easy to tell apart
+export const FIXTURE_SERVER_VERSION = '0.0.0-fixture';
+
+// Words the generated post messages are made of
+const WORDS =
+  'lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor incididunt ut labore et dolore magna aliqua'.split(
+    ' ',
+  );
+
+const FIXTURE_USERS = ['sysadmin', 'user-1', 'user-2', 'user-3'];
+
+export interface FixtureOptions {
+  port: number; // 0 picks a free port
+  channels: number; // Channels in the sidebar, town-square and off-topic first
+  postsPerChannel: number;
+  postsPerPage: number;
+  latencyMs: number; // Delay of every API response
+  leakKbPerSwitch: number; // Heap retained on every channel switch
+  jankMs: number; // Duration of each injected long task
+  jankIntervalMs: number; // Time between injected long tasks
+}
+
+export const DEFAULT_FIXTURE_OPTIONS: FixtureOptions = {
+  port: 8065,
+  channels: 10,
+  postsPerChannel: 1000,
+  postsPerPage: 30,
+  latencyMs: 50,
+  leakKbPerSwitch: 0,
+  jankMs: 0,
+  jankIntervalMs: 1000,
+};
+
+export interface FixtureServer {
+  url: string;
+  close(): Promise<void>;
+}
+
+interface FixturePost {
+  id: string;
+  channel_id: string;
+  root_id: string;
+  user_id: string;
+  message: string;
+  file_ids: string[];
+  create_at: number;
+}
+
+interface FixtureChannel {
+  name: string; // Doubles as the channel id
+  displayName: string;
+  posts?: FixturePost[]; // Created through the API, oldest first
+}
+
+type Route = (
+  request: http.IncomingMessage,
+  response: http.ServerResponse,
+  url: URL,
+  params: string[],
+) => void | Promise<void>;
+
+// The user every request is made as, whatever logged in
+const FIXTURE_USER = {id: 'fixture-user', username: 'sysadmin'};
+
+/**
+ * Starts a stand-in for a Mattermost server: it serves a minimal webapp
+ * with the elements the profiler drives and the API endpoints it and the
+ * seeder call, with optional injected leaks and jank to calibrate the
+ * detectors. Channels and posts created through the API live in memory.
+ */
+export async function startFixtureServer(
+  options: Partial<FixtureOptions> = {},
+): Promise<FixtureServer> {
+  const settings = {...DEFAULT_FIXTURE_OPTIONS, ...options};
+  const channels: FixtureChannel[] = fixtureChannels(settings.channels);
+  let uploadCount = 0;
+
+  const findChannel = (name: string) => channels.find((c) => c.name === name);
+
+  const routes: Array<[string, RegExp, Route]> = [
+    [
+      'GET',
+      /^\/api\/v4\/config\/client$/,
+      (_request, response) =>
+        sendJson(response, 200, {
+          Version: FIXTURE_SERVER_VERSION,
+          BuildNumber: 'fixture',
+          BuildHash: 'fixture',
+          BuildEnterpriseReady: 'false',
+        }),
+    ],
+    [
+      'POST',
+      /^\/api\/v4\/users\/login$/,
+      async (request, response) => {
+        const body = await readJson(request);
+        if (!stringField(body, 'login_id') || !stringField(body, 'password')) {
+          sendJson(response, 401, {message: 'Missing login id or password'});
+          return;
+        }
+        response.setHeader('Set-Cookie', [
+          'MMAUTHTOKEN=fixture-session; Path=/; HttpOnly',
+          `MMUSERID=${FIXTURE_USER.id}; Path=/`,
+          'MMCSRF=fixture-csrf; Path=/',
+        ]);
+        response.setHeader('Token', 'fixture-session');
+        sendJson(response, 200, FIXTURE_USER);
+      },
+    ],
+    [
+      'GET',
+      /^\/api\/v4\/users\/me$/,
+      (_request, response) => sendJson(response, 200, FIXTURE_USER),
+    ],
+    [
+      'GET',
+      /^\/api\/v4\/teams\/name\/([^/]+)$/,
+      (_request, response, _url, [name]) =>
+        sendJson(response, 200, {id: name, name}),
+    ],
+    [
+      'GET',
+      /^\/api\/v4\/teams\/([^/]+)\/channels$/,
+      (_request, response, url, [teamId]) => {
+        const page = Number(url.searchParams.get('page')) || 0;
+        const perPage = Number(url.searchParams.get('per_page')) || 60;
+        sendJson(
+          response,
+          200,
+          channels
+            .slice(page * perPage, (page + 1) * perPage)
+            .map((channel) => channelJson(channel, teamId)),
+        );
+      },
+    ],
+    [
+      'GET',
+      /^\/api\/v4\/teams\/([^/]+)\/channels\/name\/([^/]+)$/,
+      (_request, response, _url, [teamId, name]) => {
+        const channel = findChannel(name);
+        if (!channel) {
+          sendJson(response, 404, {message: `No channel ${name}`});
+          return;
+        }
+        sendJson(response, 200, channelJson(channel, teamId));
+      },
+    ],
+    [
+      'POST',
+      /^\/api\/v4\/channels$/,
+      async (request, response) => {
+        const body = await readJson(request);
+        const name = stringField(body, 'name');
+        if (!name || findChannel(name)) {
+          sendJson(response, 400, {message: `Cannot create ${name}`});
+          return;
+        }
+        const channel: FixtureChannel = {
+          name,
+          displayName: stringField(body, 'display_name') || name,
+          posts: [],
+        };
+        channels.push(channel);
+        sendJson(
+          response,
+          201,
+          channelJson(channel, stringField(body, 'team_id')),
+        );
+      },
+    ],
+    [
+      'DELETE',
+      /^\/api\/v4\/channels\/([^/]+)$/,
+      (_request, response, _url, [name]) => {
+        const channel = findChannel(name);
+        if (!channel) {
+          sendJson(response, 404, {message: `No channel ${name}`});
+          return;
+        }
+        channels.splice(channels.indexOf(channel), 1);
+        sendJson(response, 200, {status: 'OK'});
+      },
+    ],
+    [
+      'GET',
+      /^\/api\/v4\/channels\/([^/]+)\/posts$/,
+      (_request, response, url, [name]) => {
+        const channel = findChannel(name);
+        if (!channel) {
+          sendJson(response, 404, {message: `No channel ${name}`});
+          return;
+        }
+        sendJson(
+          response,
+          200,
+          postsPage(
+            channel,
+            settings.postsPerChannel,
+            Number(url.searchParams.get('per_page')) || settings.postsPerPage,
+            url.searchParams.get('before') ?? undefined,
+          ),
+        );
+      },
+    ],
+    [
+      'POST',
+      /^\/api\/v4\/posts$/,
+      async (request, response) => {
+        const body = await readJson(request);
+        const channel = findChannel(stringField(body, 'channel_id'));
+        if (!channel?.posts) {
+          sendJson(response, 400, {
+            message: `Posts can only be created in channels created through the API`,
+          });
+          return;
+        }
+        const post: FixturePost = {
+          id: `${channel.name}-${channel.posts.length}`,
+          channel_id: channel.name,
+          root_id: stringField(body, 'root_id'),
+          user_id: FIXTURE_USER.id,
+          message: stringField(body, 'message'),
+          file_ids: Array.isArray(body.file_ids)
+            ? body.file_ids.filter((id): id is string => typeof id === 'string')
+            : [],
+          create_at: Date.now(),
+        };
+        channel.posts.push(post);
+        sendJson(response, 201, post);
+      },
+    ],
+    [
+      'POST',
+      /^\/api\/v4\/files$/,
+      async (request, response) => {
+        // The content is not kept, attachments only need an id
+        await readBody(request);
+        sendJson(response, 201, {file_infos: [{id: `file-${++uploadCount}`}]});
+      },
+    ],
+    [
+      'POST',
+      /^\/api\/v4\/reactions$/,
+      async (request, response) =>
+        sendJson(response, 201, await readJson(request)),
+    ],
+  ];
+
+  const server = http.createServer(async (request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+    try {
+      // Rendered on every request, so channels created since show up
+      if (!url.pathname.startsWith('/api/')) {
+        send(
+          response,
+          200,
+          'text/html; charset=utf-8',
+          fixturePage({
+            channels: channels.map(({name, displayName}) => ({
+              name,
+              displayName,
+            })),
+            postsPerPage: settings.postsPerPage,
+            leakKbPerSwitch: settings.leakKbPerSwitch,
+            jankMs: settings.jankMs,
+            jankIntervalMs: settings.jankIntervalMs,
+          }),
+        );
+        return;
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, settings.latencyMs));
+      for (const [method, pattern, route] of routes) {
+        const match = pattern.exec(url.pathname);
+        if (request.method === method && match) {
+          await route(
+            request,
+            response,
+            url,
+            match.slice(1).map(decodeURIComponent),
+          );
+          return;
+        }
+      }
+      sendJson(response, 404, {message: `No fixture for ${url.pathname}`});
+    } catch (err) {
+      console.error(`Error serving ${url.pathname}:`, err);
+      sendJson(response, 500, {message: String(err)});
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(settings.port, () => resolve());
+  });
+
+  const {port} = server.address() as AddressInfo;
+  return {
+    url: `http://localhost:${port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
+
+function channelJson(channel: FixtureChannel, teamId: string) {
+  return {
+    id: channel.name,
+    team_id: teamId,
+    name: channel.name,
+    display_name: channel.displayName,
+    type: 'O',
+    delete_at: 0,
+  };
+}
+
+/**
+ * Channels of the sidebar, starting with the default channels of the profiler
+ */
+export function fixtureChannels(
+  count: number,
+): Array<{name: string; displayName: string}> {
+  const channels = [
+    {name: 'town-square', displayName: 'Town Square'},
+    {name: 'off-topic', displayName: 'Off-Topic'},
+  ];
+  for (let i = channels.length + 1; i <= count; i++) {
+    channels.push({name: `channel-${i}`, displayName: `Channel ${i}`});
+  }
+  return channels.slice(0, count);
+}
+
+/**
+ * A page of posts in the shape of the posts API, newest first. Post ids end
+ * with their index in the channel, so a "before" cursor is easy to follow.
+ * Channels created through the API hold their posts, the others get
+ * generated ones.
+ */
+function postsPage(
+  channel: FixtureChannel,
+  generatedCount: number,
+  perPage: number,
+  before?: string,
+): {order: string[]; posts: Record<string, FixturePost>} {
+  const postCount = channel.posts?.length ?? generatedCount;
+  const beforeIndex = before
+    ? Number(before.slice(before.lastIndexOf('-') + 1))
+    : postCount;
+  const end = Number.isInteger(beforeIndex) ? beforeIndex : postCount;
+  const start = Math.max(0, end - perPage);
+
+  const order: string[] = [];
+  const posts: Record<string, FixturePost> = {};
+  for (let index = end - 1; index >= start; index--) {
+    const post = channel.posts?.[index] ?? fixturePost(channel.name, index);
+    order.push(post.id);
+    posts[post.id] = post;
+  }
+
+  return {order, posts};
+}
+
+/**
+ * The same post for the same channel and index on every call
+ */
+function fixturePost(channel: string, index: number): FixturePost {
+  const wordCount = 4 + ((index * 7) % 40);
+  const message = Array.from(
+    {length: wordCount},
+    (_, word) => WORDS[(index + word * 3) % WORDS.length],
+  ).join(' ');
+
+  return {
+    id: `${channel}-${index}`,
+    channel_id: channel,
+    root_id: '',
+    user_id: FIXTURE_USERS[index % FIXTURE_USERS.length],
+    message,
+    file_ids: [],
+    create_at: Date.UTC(2025, 0, 1) + index * 60000,
+  };
+}
+
+function readBody(request: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', (chunk) => (body += chunk));
+    request.on('end', () => resolve(body));
+    request.on('error', reject);
+  });
+}
+
+async function readJson(
+  request: http.IncomingMessage,
+): Promise<Record<string, unknown>> {
+  const body: unknown = JSON.parse((await readBody(request)) || '{}');
+  return typeof body === 'object' && body !== null && !Array.isArray(body)
+    ? (body as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * A string field of a request body, empty when missing or not a string
+ */
+function stringField(body: Record<string, unknown>, key: string): string {
+  const value = body[key];
+  return typeof value === 'string' ? value : '';
+}
+
+function send(
+  response: http.ServerResponse,
+  status: number,
+  contentType: string,
+  body: string,
+): void {
+  response.writeHead(status, {'Content-Type': contentType});
+  response.end(body);
+}
+
+function sendJson(
+  response: http.ServerResponse,
+  status: number,
+  body: unknown,
+): void {
+  send(response, status, 'application/json', JSON.stringify(body));
+}
@@ -0,0 +1,325 @@
+// Settings the stand-in webapp is rendered with, passed from the server
+export interface FixtureAppSettings {
+  channels: Array<{name: string; displayName: string}>;
+  postsPerPage: number;
+  leakKbPerSwitch: number;
+  jankMs: number;
+  jankIntervalMs: number;
+}
+
+declare global {
+  interface Window {
+    __fixtureLeaks?: unknown[]; // Keeps injected leaks reachable
+  }
+}
+
+const STYLES = `
+body { font-family: sans-serif; margin: 0; }
+.get-app, #login { display: flex; flex-direction: column; gap: 12px; max-width: 320px; margin: 80px auto; }
+.app { display: flex; height: 100vh; }
+#sidebar-left { width: 240px; overflow-y: auto; background: #1e325c; }
+.SidebarLink { display: block; padding: 6px 16px; color: #fff; text-decoration: none; }
+.SidebarLink.active { background: #28427b; }
+#channel-view { flex: 1; display: flex; flex-direction: column; min-width: 0; }
+.channel-header { padding: 12px 16px; border-bottom: 1px solid #ddd; font-weight: 600; }
+.post-list__dynamic { flex: 1; overflow-y: auto; position: relative; }
+.post-list__content { position: relative; }
+.post { position: absolute; left: 0; right: 0; box-sizing: border-box; padding: 8px 16px; overflow: hidden; }
+.post__header { font-weight: 600; font-size: 13px; }
+.post__body { font-size: 14px; white-space: nowrap; text-overflow: ellipsis; overflow: hidden; }
+`;
+
+/**
+ * Page of the stand-in webapp, the same for every route like the real one
+ */
+export function fixturePage(settings: FixtureAppSettings): string {
+  // Keeps a "</script>" in the settings from ending the script
+  const settingsJson = JSON.stringify(settings).replace(/</g, '\\u003c');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Mattermost fixture</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<div id="root"></div>
+<script>(${fixtureApp.toString()})(${settingsJson});</script>
+</body>
+</html>
+`;
+}
+
+/**
+ * The stand-in webapp. It runs in the browser, so it is serialized with
+ * toString and must not use anything from outside its own body.
+ *
+ * It renders the pages the profiler drives in the order a fresh browser
+ * sees them: the "open in app" prompt, the login form, then the channel
+ * view with a sidebar and a virtualized post list loading older posts as
+ * it is scrolled up.
+ */
+function fixtureApp(settings: FixtureAppSettings): void {
+  const ROW_HEIGHT = 64;
+  const OVERSCAN_ROWS = 10;
+  // Older posts are loaded when the list is scrolled this close to its top
+  const LOAD_MORE_THRESHOLD_PX = 600;
+
+  interface Post {
+    id: string;
+    user_id: string;
+    message: string;
+  }
+
+  interface ChannelState {
+    name: string;
+    list: HTMLElement;
+    content: HTMLElement;
+    posts: Post[]; // Oldest first
+    hasMore: boolean;
+    loading: boolean;
+    firstRendered: number;
+    lastRendered: number;
+  }
+
+  const root = document.getElementById('root')!;
+  const team = location.pathname.split('/')[1] || 'team';
+
+  // Retained on purpose when leaks are injected, never read
+  const leaks: unknown[] = [];
+  window.__fixtureLeaks = leaks;
+
+  let current: ChannelState | undefined;
+  let openCount = 0;
+
+  if (document.cookie.includes('MMUSERID=')) {
+    renderApp();
+  } else if (localStorage.getItem('__landing-preference__') === 'browser') {
+    renderLogin();
+  } else {
+    renderLanding();
+  }
+
+  function renderLanding(): void {
+    root.innerHTML = `<div class="get-app">
+  <p>Where would you like to view this?</p>
+  <label class="get-app__preference"><input type="checkbox" class="get-app__checkbox"> Remember my preference</label>
+  <a href="#" class="btn btn-primary btn-lg">View in Desktop App</a>
+  <a href="#" class="btn btn-tertiary btn-lg">View in Browser</a>
+</div>`;
+    root.querySelector('a.btn-tertiary')!.addEventListener('click', (event) => {
+      event.preventDefault();
+      // The preference skips this page on the next visit, like the real one
+      localStorage.setItem('__landingPageSeen__', 'true');
+      if (root.querySelector<HTMLInputElement>('.get-app__checkbox')!.checked) {
+        localStorage.setItem('__landing-preference__', 'browser');
+      }
+      renderLogin();
+    });
+  }
+
+  function renderLogin(): void {
+    root.innerHTML = `<form id="login">
+  <input id="input_loginId" name="loginId" placeholder="Email or Username" autocomplete="off">
+  <input id="input_password-input" name="password" type="password" placeholder="Password">
+  <button type="submit">Log in</button>
+  <p class="login-error"></p>
+</form>`;
+    const form = root.querySelector('form')!;
+    form.addEventListener('submit', async (event) => {
+      event.preventDefault();
+      const data = new FormData(form);
+      const response = await fetch('/api/v4/users/login', {
+        method: 'POST',
+        headers: {'Content-Type': 'application/json'},
+        body: JSON.stringify({
+          login_id: data.get('loginId'),
+          password: data.get('password'),
+        }),
+      });
+      if (response.ok) {
+        renderApp();
+      } else {
+        root.querySelector('.login-error')!.textContent =
+          'Enter a valid email or username and/or password.';
+      }
+    });
+  }
+
+  function renderApp(): void {
+    const links = settings.channels
+      .map(
+        (channel) =>
+          `<a class="SidebarLink" id="sidebarItem_${channel.name}" aria-label="${channel.displayName} public channel" href="/${team}/channels/${channel.name}">${channel.displayName}</a>`,
+      )
+      .join('');
+    root.innerHTML = `<div class="app"><nav id="sidebar-left">${links}</nav><main id="channel-view"></main></div>`;
+
+    document
+      .getElementById('sidebar-left')!
+      .addEventListener('click', (event) => {
+        const link = (event.target as HTMLElement).closest('a.SidebarLink');
+        if (!link) return;
+        event.preventDefault();
+        const name = link.id.replace(/^sidebarItem_/, '');
+        if (name === current?.name) return;
+        history.pushState(null, '', (link as HTMLAnchorElement).href);
+        openChannel(name);
+      });
+    window.addEventListener('popstate', () => openChannel(channelFromPath()));
+
+    if (settings.jankMs > 0) {
+      setInterval(() => busyWait(settings.jankMs), settings.jankIntervalMs);
+    }
+
+    const name = channelFromPath();
+    history.replaceState(null, '', `/${team}/channels/${name}`);
+    openChannel(name);
+  }
+
+  function channelFromPath(): string {
+    const name = /\/channels\/([^/]+)/.exec(location.pathname)?.[1];
+    return settings.channels.some((channel) => channel.name === name)
+      ? name!
+      : settings.channels[0].name;
+  }
+
+  async function openChannel(name: string): Promise<void> {
+    const opened = ++openCount;
+    const channel = settings.channels.find((c) => c.name === name)!;
+
+    // The detached post list and a block of heap stay reachable
+    if (current && settings.leakKbPerSwitch > 0) {
+      leaks.push({
+        list: current.list,
+        data: Array.from(
+          {length: (settings.leakKbPerSwitch * 1024) / 8},
+          Math.random,
+        ),
+      });
+    }
+
+    for (const link of Array.from(
+      document.querySelectorAll('#sidebar-left a.SidebarLink'),
+    )) {
+      link.classList.toggle('active', link.id === `sidebarItem_${name}`);
+    }
+
+    const view = document.getElementById('channel-view')!;
+    view.innerHTML = `<div class="channel-header">${channel.displayName}</div>`;
+    const list = document.createElement('div');
+    list.className = 'post-list__dynamic';
+    const content = document.createElement('div');
+    content.className = 'post-list__content';
+    list.appendChild(content);
+    view.appendChild(list);
+
+    const state: ChannelState = {
+      name,
+      list,
+      content,
+      posts: [],
+      hasMore: true,
+      loading: true,
+      firstRendered: -1,
+      lastRendered: -1,
+    };
+    current = state;
+
+    const posts = await fetchPosts(name);
+    if (opened !== openCount) return;
+
+    state.posts = posts;
+    state.hasMore = posts.length === settings.postsPerPage;
+    state.loading = false;
+    content.style.height = `${posts.length * ROW_HEIGHT}px`;
+    list.scrollTop = list.scrollHeight;
+    render(state);
+
+    list.addEventListener('scroll', () => {
+      render(state);
+      if (
+        list.scrollTop < LOAD_MORE_THRESHOLD_PX &&
+        state.hasMore &&
+        !state.loading
+      ) {
+        loadMore(state);
+      }
+    });
+  }
+
+  async function loadMore(state: ChannelState): Promise<void> {
+    state.loading = true;
+    const older = await fetchPosts(state.name, state.posts[0]?.id);
+    if (state !== current) return;
+
+    state.posts = [...older, ...state.posts];
+    state.hasMore = older.length === settings.postsPerPage;
+    state.loading = false;
+
+    // Keep the visible posts in place while the list grows above them
+    state.content.style.height = `${state.posts.length * ROW_HEIGHT}px`;
+    state.list.scrollTop += older.length * ROW_HEIGHT;
+    state.firstRendered = -1;
+    render(state);
+  }
+
+  /**
+   * Renders only the posts in view plus a few rows on each side
+   */
+  function render(state: ChannelState): void {
+    const {list, content, posts} = state;
+    const first = Math.max(
+      0,
+      Math.floor(list.scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS,
+    );
+    const last = Math.min(
+      posts.length,
+      Math.ceil((list.scrollTop + list.clientHeight) / ROW_HEIGHT) +
+        OVERSCAN_ROWS,
+    );
+    if (first === state.firstRendered && last === state.lastRendered) return;
+    state.firstRendered = first;
+    state.lastRendered = last;
+
+    content.replaceChildren(
+      ...posts.slice(first, last).map((post, offset) => {
+        const element = document.createElement('div');
+        element.className = 'post';
+        element.id = `post_${post.id}`;
+        element.style.top = `${(first + offset) * ROW_HEIGHT}px`;
+        element.style.height = `${ROW_HEIGHT}px`;
+
+        const header = document.createElement('div');
+        header.className = 'post__header';
+        header.textContent = post.user_id;
+        const body = document.createElement('div');
+        body.className = 'post__body';
+        body.textContent = post.message;
+
+        element.append(header, body);
+        return element;
+      }),
+    );
+  }
+
+  /**
+   * Fetches a page of posts, the newest ones or those before a post,
+   * and returns them oldest first
+   */
+  async function fetchPosts(channel: string, before?: string): Promise<Post[]> {
+    const query = `per_page=${settings.postsPerPage}${before ? `&before=${before}` : ''}`;
+    const response = await fetch(`/api/v4/channels/${channel}/posts?${query}`);
+    const data: {order: string[]; posts: Record<string, Post>} =
+      await response.json();
+    return data.order.map((id) => data.posts[id]).reverse();
+  }
+
+  function busyWait(ms: number): void {
+    const end = performance.now() + ms;
+    while (performance.now() < end) {
+      // Blocks the main thread like an expensive render would
+    }
+  }
+}
@@ -1,12 +1,128 @@
 import puppeteer, {Browser, Page} from 'puppeteer';
-import * as path from 'path';
-import * as fs from 'fs/promises';
 import 'pptr-testing-library/extend';
-import {formatTimestamp} from './measurers/toFile';
+import {
+  createAndSaveToFiles,
+  createRunDirectory,
+  formatTimestamp,
+  saveToJson,
+} from './measurers/toFile';
+import {takeMetrics} from './measurers/metrics';
 import {forceGarbageCollection} from './measurers/garbageCollector';
-import {profileSwitchingToEachChannel} from './scenarios/switchToEachChannel';
-import {profileScrollingInTwoChannels} from './scenarios/scrollingInTwoChannels';
-import {Command} from 'commander';
+import {
+  getScenario,
+  listScenarios,
+  resolveScenarioParams,
+  runScenario,
+  Scenario,
+} from './scenarios';
+import {Command, InvalidArgumentError} from 'commander';
+import {channelUrl, loadConfig, ProfilerConfig} from './config';
+import {analyzeMemoryLeak} from './analysis/leak';
+import {aggregateRuns, MetricAggregate} from './analysis/aggregate';
+import {
+  Budget,
+  evaluateBudgets,
+  loadBudgets,
+  saveBudgetsJunit,
+} from './budgets';
+import {MemoryMetrics} from './measurers/memory';
+import {
+  EXPORT_FORMATS,
+  ExportFormat,
+  LabelledMetrics,
+  pushMetrics,
+  saveMetricsExport,
+} from './measurers/metricsExport';
+import {RunManifest} from './runManifest';
+import {injectSession} from './auth';
+import {
+  cleanupSeed,
+  DEFAULT_SEED_OPTIONS,
+  seedDataset,
+  SeedOptions,
+} from './seeding';
+import {compareCommand} from './commands/compare';
+import {reportCommand} from './commands/report';
+import {recoverCommand} from './commands/recover';
+import {DEFAULT_FIXTURE_OPTIONS, startFixtureServer} from './fixture/server';
+
+// Exit codes, a failed scenario wins over a breached budget over a leak
+const EXIT_CODE_FAILURE = 1;
+const EXIT_CODE_LEAK = 2;
+const EXIT_CODE_BUDGET = 3;
+
+// The webapp counts as loaded once no request was made for this long
+const WEBAPP_IDLE_MS = 1000;
+
+const DEFAULT_CPU_SAMPLING_INTERVAL_US = 1000;
+const DEFAULT_CPU_TOP_FUNCTIONS = 20;
+
+const DEFAULT_COMPARE_ALPHA = 0.05;
+const DEFAULT_COMPARE_TOLERANCE_PERCENT = 5;
+
+function parsePositiveInteger(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new InvalidArgumentError('Must be a positive integer.');
+  }
+  return parsed;
+}
+
+function parseNonNegativeNumber(value: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isFinite(parsed) || parsed < 0) {
+    throw new InvalidArgumentError('Must be a number of at least 0.');
+  }
+  return parsed;
+}
+
+function parseProbability(value: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !(parsed > 0 && parsed < 1)) {
+    throw new InvalidArgumentError('Must be a number between 0 and 1.');
+  }
+  return parsed;
+}
+
+function parseNonNegativeInteger(value: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !Number.isInteger(parsed) || parsed < 0) {
+    throw new InvalidArgumentError('Must be an integer of at least 0.');
+  }
+  return parsed;
+}
+
+function parseRatio(value: string): number {
+  const parsed = Number(value);
+  if (value.trim() === '' || !(parsed >= 0 && parsed <= 1)) {
+    throw new InvalidArgumentError('Must be a number from 0 to 1.');
+  }
+  return parsed;
+}
+
+/**
+ * Parses a word count, "20", or a range of them, "5-40"
+ */
+function parseWordRange(value: string): {min: number; max: number} {
+  const match = /^(\d+)(?:-(\d+))?$/.exec(value.trim());
+  const min = Number(match?.[1]);
+  const max = Number(match?.[2] ?? match?.[1]);
+  if (!match || min < 1 || max < min) {
+    throw new InvalidArgumentError(
+      'Must be a word count like 20 or a range like 5-40.',
+    );
+  }
+  return {min, max};
+}
+
+function parseExportFormat(value: string): ExportFormat {
+  if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+    throw new InvalidArgumentError(
+      `Must be one of ${EXPORT_FORMATS.join(', ')}.`,
+    );
+  }
+  return value as ExportFormat;
+}
 
 // Set up commander for CLI options
 const program = new Command();
@@ -15,14 +131,146 @@ program
   .name('mattermost-webapp-performance-profiler')
   .description('Performance profiler for Mattermost webapp')
   .version('1.0.0')
-  .option('--test <type>', 'Test type to run (scroll-one-channel, scroll-two-channels, switch-same-channels, switch-each-channel)');
-
-// Parse arguments
-program.parse();
+  .option('--test <type>', 'Scenarios to run, comma separated (see --list)')
+  .option('--list', 'List available scenarios and their params')
+  .option(
+    '--param <key=value>',
+    'Scenario param, repeatable (e.g. scrollCount=200 or scroll-two-channels.scrollCount=200)',
+    (value: string, previous: string[]) => [...previous, value],
+    [] as string[],
+  )
+  .option('--config <path>', 'Path to a JSON or YAML config file')
+  .option('--base-url <url>', 'Mattermost server URL')
+  .option('--team <name>', 'Team name used in the webapp URL')
+  .option('--channel <name>', 'Channel the webapp is opened on')
+  .option('--user <name>', 'Username or email to log in with')
+  .option(
+    '--password-env <name>',
+    'Name of the environment variable holding the password',
+  )
+  .option(
+    '--access-token-env <name>',
+    'Name of the environment variable holding a personal access token to log in with',
+  )
+  .option(
+    '--no-session-cache',
+    'Log in again instead of reusing the session of an earlier run',
+  )
+  .option('--headless', 'Run the browser without a window')
+  .option(
+    '--heap-snapshots',
+    'Save heap snapshots before and after each scenario and diff them',
+  )
+  .option(
+    '--trace',
+    'Record a Chrome performance trace of each scenario, with screenshots',
+  )
+  .option('--cpu-profile', 'Record a CPU profile of each scenario')
+  .option(
+    '--cpu-sampling-interval <us>',
+    'Time between CPU profile samples in microseconds',
+    parsePositiveInteger,
+    DEFAULT_CPU_SAMPLING_INTERVAL_US,
+  )
+  .option(
+    '--cpu-top <count>',
+    'Functions listed in the CPU profile summary',
+    parsePositiveInteger,
+    DEFAULT_CPU_TOP_FUNCTIONS,
+  )
+  .option(
+    '--repeat <count>',
+    'Run each scenario this many times and aggregate the metrics of the runs',
+    parsePositiveInteger,
+    1,
+  )
+  .option(
+    '--fresh-context',
+    'Open a new browser context, with the same session, before every repeated run',
+  )
+  .option(
+    '--budgets <path>',
+    'JSON or YAML file of metric budgets per scenario, checked after the run',
+  )
+  .option(
+    '--seed <number>',
+    'Create a deterministic dataset from this seed through the REST API before running',
+    parseNonNegativeInteger,
+  )
+  .option(
+    '--seed-channels <count>',
+    'Channels of the seeded dataset',
+    parsePositiveInteger,
+    DEFAULT_SEED_OPTIONS.channels,
+  )
+  .option(
+    '--seed-posts <count>',
+    'Root posts in each seeded channel',
+    parsePositiveInteger,
+    DEFAULT_SEED_OPTIONS.postsPerChannel,
+  )
+  .option(
+    '--seed-words <range>',
+    'Words in each seeded message, a count or a range like 5-40',
+    parseWordRange,
+    DEFAULT_SEED_OPTIONS.messageWords,
+  )
+  .option(
+    '--seed-attachments <ratio>',
+    'Share of seeded posts with a file attached',
+    parseRatio,
+    DEFAULT_SEED_OPTIONS.attachmentRatio,
+  )
+  .option(
+    '--seed-reactions <ratio>',
+    'Share of seeded posts with a reaction',
+    parseRatio,
+    DEFAULT_SEED_OPTIONS.reactionRatio,
+  )
+  .option(
+    '--seed-threads <ratio>',
+    'Share of seeded posts starting a thread',
+    parseRatio,
+    DEFAULT_SEED_OPTIONS.threadRatio,
+  )
+  .option(
+    '--seed-replies <count>',
+    'Replies in each seeded thread',
+    parseNonNegativeInteger,
+    DEFAULT_SEED_OPTIONS.repliesPerThread,
+  )
+  .option(
+    '--seed-cleanup',
+    'Remove the dataset of --seed after the run, or right away without --test',
+  )
+  .option(
+    '--push-url <url>',
+    'Pushgateway or InfluxDB write URL the run metrics are sent to',
+  )
+  .option(
+    '--push-format <format>',
+    `Format of the pushed metrics: ${EXPORT_FORMATS.join(' or ')}`,
+    parseExportFormat,
+    'openmetrics',
+  )
+  .option(
+    '--frame-mode <mode>',
+    'Frame measurement: fps for per-interval frame rate, timing for every frame time',
+  )
+  .option(
+    '--leak-threshold <mb>',
+    'Heap growth in MB per iteration above which a leak is reported',
+  )
+  .option(
+    '--leak-warmup <iterations>',
+    'Leading iterations ignored by the leak analysis',
+  );
 
-async function setupBrowser(): Promise<{browser: Browser; page: Page}> {
+async function setupBrowser(
+  config: ProfilerConfig,
+): Promise<{browser: Browser; page: Page}> {
   const browser = await puppeteer.launch({
-    headless: false,
+    headless: config.headless,
     defaultViewport: null,
     args: ['--start-maximized'],
   });
@@ -30,6 +278,49 @@ async function setupBrowser(): Promise<{browser: Browser; page: Page}> {
   return {browser, page};
 }
 
+/**
+ * Opens the webapp on the main channel, logged in through the API so the
+ * landing page and login form are skipped
+ */
+async function openWebapp(page: Page, config: ProfilerConfig): Promise<void> {
+  // Clear browser data
+  await clearBrowserData(page);
+
+  await injectSession(page, config);
+
+  // Navigate to the page
+  await page.goto(channelUrl(config, config.channel));
+
+  // Wait for the sidebar and for the requests of the first load to settle
+  console.log('Waiting for the webapp to load...');
+  await page.waitForSelector(`#sidebarItem_${config.channel}`);
+  await page.waitForNetworkIdle({idleTime: WEBAPP_IDLE_MS});
+}
+
+/**
+ * Opens a page in a new browser context, so no cache, storage or app state
+ * carries over from the previous run, and closes the previous context
+ */
+async function openFreshPage(
+  browser: Browser,
+  previousPage: Page,
+  config: ProfilerConfig,
+): Promise<Page> {
+  const previousContext = previousPage.browserContext();
+  const context = await browser.createBrowserContext();
+  const page = await context.newPage();
+  await openWebapp(page, config);
+
+  // The default context cannot be closed, its page can
+  if (previousContext === browser.defaultBrowserContext()) {
+    await previousPage.close();
+  } else {
+    await previousContext.close();
+  }
+
+  return page;
+}
+
 async function clearBrowserData(page: Page): Promise<void> {
   const client = await page.createCDPSession();
   await client.send('Network.clearBrowserCache');
@@ -37,139 +328,397 @@ async function clearBrowserData(page: Page): Promise<void> {
   await client.send('Network.clearBrowserCookies');
 }
 
-async function handlePreferenceCheckbox(page: Page): Promise<void> {
-  await page.waitForSelector(
-    'label.get-app__preference input.get-app__checkbox',
-  );
-  await page.click('label.get-app__preference input.get-app__checkbox');
+function printScenarios(): void {
+  console.log('Available scenarios:');
+  for (const scenario of listScenarios()) {
+    console.log(`\n  ${scenario.name}`);
+    console.log(`    ${scenario.description}`);
+    for (const [key, param] of Object.entries(scenario.params)) {
+      console.log(
+        `    --param ${key}=<${param.type}>  ${param.description} (default: ${param.default})`,
+      );
+    }
+  }
 }
 
-async function clickViewInBrowser(page: Page): Promise<void> {
-  await page.waitForSelector('a.btn.btn-tertiary.btn-lg');
-  await page.evaluate(() => {
-    const buttons = Array.from(
-      document.querySelectorAll('a.btn.btn-tertiary.btn-lg'),
+/**
+ * Looks up the scenarios named in --test, failing on unknown names
+ */
+function selectScenarios(test: string): Scenario[] {
+  const names = test
+    .split(',')
+    .map((t: string) => t.trim())
+    .filter(Boolean);
+
+  const unknown = names.filter((name) => !getScenario(name));
+  if (unknown.length > 0) {
+    throw new Error(
+      `Unknown scenario: ${unknown.join(', ')}. Available scenarios: ${listScenarios()
+        .map((s) => s.name)
+        .join(', ')}`,
     );
-    const viewButton = buttons.find(
-      (button) => button.textContent?.trim() === 'View in Browser',
+  }
+
+  return names.map((name) => getScenario(name)!);
+}
+
+/**
+ * Analyzes a scenario's memory series and saves the verdict next to its results.
+ * Returns whether a leak was detected.
+ */
+async function reportLeakVerdict(
+  scenario: Scenario,
+  measurements: MemoryMetrics[],
+  config: ProfilerConfig,
+  timestamp: string,
+): Promise<boolean> {
+  const leakVerdict = analyzeMemoryLeak(measurements, {
+    warmupIterations: config.leakWarmupIterations,
+    thresholdMBPerIteration: config.leakThresholdMB,
+  });
+
+  console.log(
+    `Leak analysis for ${scenario.name}: ${leakVerdict.verdict} (${leakVerdict.slopeMBPerIteration} MB/iteration, R² ${leakVerdict.rSquared}, ${leakVerdict.sampleCount} samples)`,
+  );
+  if (!leakVerdict.postGCOnly) {
+    console.log(
+      `${scenario.name} does not force garbage collection, its raw heap growth cannot tell a leak from garbage`,
     );
-    if (viewButton) {
-      (viewButton as HTMLElement).click();
+  }
+
+  await saveToJson(leakVerdict, `${scenario.name}-leak-verdict-${timestamp}`);
+
+  return leakVerdict.verdict === 'leak';
+}
+
+/**
+ * Saves the metrics of every run of a scenario and their aggregate
+ */
+async function saveRunAggregate(
+  scenario: Scenario,
+  runMetrics: Array<Record<string, number>>,
+  timestamp: string,
+): Promise<MetricAggregate[]> {
+  const aggregates = aggregateRuns(runMetrics);
+  const metricNames = aggregates.map((aggregate) => aggregate.metric);
+
+  const rows: Array<Record<string, number>> = runMetrics.map(
+    (metrics, index) => ({run: index + 1, ...metrics}),
+  );
+
+  // Metrics in the same order as the aggregate, whichever run recorded them
+  await createAndSaveToFiles(
+    rows,
+    `${scenario.name}-run-metrics-${timestamp}`,
+    'csv',
+    ['run', ...metricNames],
+  );
+  await createAndSaveToFiles(
+    aggregates,
+    `${scenario.name}-aggregate-${timestamp}`,
+  );
+
+  if (runMetrics.length > 1) {
+    console.log(`Aggregate of ${runMetrics.length} runs of ${scenario.name}:`);
+    for (const aggregate of aggregates) {
+      console.log(
+        `  ${aggregate.metric}: median ${aggregate.median}, p95 ${aggregate.p95}, stddev ${aggregate.stddev}, 95% CI [${aggregate.ci95Low}, ${aggregate.ci95High}]`,
+      );
     }
-  });
+  }
+
+  return aggregates;
+}
+
+/**
+ * Saves the run metrics of every scenario as OpenMetrics and InfluxDB line
+ * protocol, and sends them to the push URL when one is given
+ */
+async function exportRunMetrics(
+  samples: LabelledMetrics[],
+  timestamp: string,
+  runStartTime: Date,
+  pushUrl: string | undefined,
+  pushFormat: ExportFormat,
+): Promise<void> {
+  for (const format of EXPORT_FORMATS) {
+    await saveMetricsExport(
+      samples,
+      `metrics-${timestamp}`,
+      format,
+      runStartTime,
+    );
+  }
+
+  if (pushUrl) {
+    await pushMetrics(samples, pushUrl, pushFormat, runStartTime);
+  }
+}
+
+/**
+ * Checks the budgets against the aggregated metrics and saves them as JUnit XML.
+ * Returns whether any budget was breached or its metric missing.
+ */
+async function reportBudgets(
+  budgets: Budget[],
+  aggregates: Map<string, MetricAggregate[]>,
+  timestamp: string,
+): Promise<boolean> {
+  const results = evaluateBudgets(budgets, aggregates);
+
+  console.log('\nBudgets:');
+  for (const result of results) {
+    console.log(
+      `  [${result.status}] ${result.budget.scenario} ${result.budget.metric}: ${result.message}`,
+    );
+  }
+
+  await saveBudgetsJunit(results, `budgets-${timestamp}`);
+
+  return results.some(
+    (result) => result.status === 'breached' || result.status === 'missing',
+  );
 }
 
-const EMAIL = 'sysadmin';
-const PASSWORD = 'Sys@dmin-sample1';
+/**
+ * Seeding options coming from the command line, already parsed by commander
+ */
+interface SeedCliOptions {
+  seed?: number;
+  seedChannels?: number;
+  seedPosts?: number;
+  seedWords?: {min: number; max: number};
+  seedAttachments?: number;
+  seedReactions?: number;
+  seedThreads?: number;
+  seedReplies?: number;
+}
 
-async function performLogin(page: Page): Promise<void> {
-  await page.waitForSelector('#input_loginId');
-  await page.type('#input_loginId', EMAIL);
-  await page.type('#input_password-input', PASSWORD);
-  await page.keyboard.press('Enter');
+/**
+ * Seeding options from the command line, undefined without --seed
+ */
+function seedOptionsFrom(options: SeedCliOptions): SeedOptions | undefined {
+  if (options.seed === undefined) {
+    return undefined;
+  }
+  return {
+    seed: options.seed,
+    channels: options.seedChannels ?? DEFAULT_SEED_OPTIONS.channels,
+    postsPerChannel: options.seedPosts ?? DEFAULT_SEED_OPTIONS.postsPerChannel,
+    messageWords: options.seedWords ?? DEFAULT_SEED_OPTIONS.messageWords,
+    attachmentRatio:
+      options.seedAttachments ?? DEFAULT_SEED_OPTIONS.attachmentRatio,
+    reactionRatio: options.seedReactions ?? DEFAULT_SEED_OPTIONS.reactionRatio,
+    threadRatio: options.seedThreads ?? DEFAULT_SEED_OPTIONS.threadRatio,
+    repliesPerThread:
+      options.seedReplies ?? DEFAULT_SEED_OPTIONS.repliesPerThread,
+  };
 }
 
 async function main(): Promise<void> {
   try {
     // Get options from commander
     const options = program.opts();
-    
+
+    if (options.list) {
+      printScenarios();
+      return;
+    }
+
+    const seedOptions = seedOptionsFrom(options);
+
+    // Without scenarios, --seed only seeds or, with --seed-cleanup, cleans up
+    if (!options.test && seedOptions) {
+      const config = await loadConfig(options);
+      if (options.seedCleanup) {
+        await cleanupSeed(config, seedOptions.seed);
+      } else {
+        await seedDataset(config, seedOptions);
+      }
+      return;
+    }
+
     // If no test specified, show help
     if (!options.test) {
-      console.log('No test specified. Please specify a test using --test=<type>');
-      console.log('Available tests: scroll-two-channels, switch-each-channel');
+      console.log(
+        'No test specified. Please specify a test using --test=<type>',
+      );
+      printScenarios();
       program.help();
       return;
     }
 
-    // Setup browser and page
-    const {browser, page} = await setupBrowser();
-
-    // Clear browser data
-    await clearBrowserData(page);
+    // Check scenarios and their params before launching the browser
+    const scenarios = selectScenarios(options.test);
+    const scenarioParams = resolveScenarioParams(scenarios, options.param);
+    const budgets = options.budgets
+      ? await loadBudgets(
+          options.budgets,
+          listScenarios().map((s) => s.name),
+        )
+      : undefined;
 
-    // Navigate to the page
-    await page.goto(
-      'http://localhost:8065/team-au5hif5xh3gctgbfasrhq8dt1o/channels/town-square',
-    );
+    // Resolve config from file, environment and flags
+    const config = await loadConfig(options);
 
-    // Handle preference checkbox
-    await handlePreferenceCheckbox(page);
+    if (seedOptions) {
+      await seedDataset(config, seedOptions);
+    }
 
-    // Click View in Browser button
-    await clickViewInBrowser(page);
+    // Create timestamp for filenames, it also names the run directory
+    const runStartTime = new Date();
+    const timestamp = formatTimestamp(runStartTime);
 
-    // Perform login
-    await performLogin(page);
+    // Every run writes to its own directory, described by its manifest
+    const runDirectory = await createRunDirectory(timestamp);
+    const manifest = new RunManifest(timestamp, runStartTime, options, config);
+    console.log(`Saving results to ${runDirectory}`);
 
-    // Wait for page to stabilize after login and load sidebar
-    console.log('Waiting for page to stabilize after login...');
-    await new Promise((resolve) => setTimeout(resolve, 5000));
+    // Setup browser and page
+    const setup = await setupBrowser(config);
+    const browser = setup.browser;
+    let page = setup.page;
+    await manifest.recordVersions(browser, config);
 
-    // Create results directory if it doesn't exist
-    const resultsDir = path.join(process.cwd(), 'results');
-    try {
-      await fs.mkdir(resultsDir, {recursive: true});
-    } catch (err) {
-      console.log('Results directory already exists');
-    }
+    await openWebapp(page, config);
 
-    // Create timestamp for filenames
+    // Measurements are timed from here
     const startTime = new Date();
-    const timestamp = formatTimestamp(startTime);
 
-    // Get the tests to run (split by comma)
-    const testsToRun = options.test.split(',').map((t: string) => t.trim());
-    
     // Track if any test failed
     let hasFailures = false;
-    
-    // Process each specified test
-    for (const testType of testsToRun) {
-      try {
-        switch (testType) {
-          case 'scroll-two-channels':
-            await profileScrollingInTwoChannels(
-              page,
-              startTime,
-              timestamp,
-              400,  // Fewer scrolls
-              300, // Smaller pixels per scroll
-              150  // More time between scrolls
-            );
-            break;
-            
-          case 'switch-each-channel':
-            await profileSwitchingToEachChannel(
-              page,
-              startTime,
-              timestamp,
-              1500,
-            );
-            break;
-
-          default:
-            console.log(`Unknown test type: ${testType}`);
-            console.log('Available tests: scroll-one-channel, scroll-two-channels, switch-same-channels, switch-each-channel');
+    let hasLeaks = false;
+
+    // Aggregated metrics of each scenario, checked against the budgets
+    const aggregates = new Map<string, MetricAggregate[]>();
+
+    // Metrics of every run, labelled for the time-series exports
+    const exportedMetrics: LabelledMetrics[] = [];
+
+    // Process each specified scenario
+    for (const scenario of scenarios) {
+      const params = scenarioParams.get(scenario.name)!;
+      await manifest.startScenario(scenario.name, params, options.repeat);
+
+      const runMetrics: Array<Record<string, number>> = [];
+      let scenarioError: unknown;
+
+      for (let run = 1; run <= options.repeat; run++) {
+        // Each run keeps its own raw files
+        const runTimestamp =
+          options.repeat > 1 ? `${timestamp}-run${run}` : timestamp;
+
+        try {
+          if (run > 1) {
+            if (options.freshContext) {
+              page = await openFreshPage(browser, page, config);
+            }
+            await forceGarbageCollection(page);
+          }
+
+          // Metrics recorded outside a run belong to no run
+          takeMetrics();
+
+          const measurements = await runScenario(
+            scenario,
+            {page, config, startTime, timestamp: runTimestamp, params},
+            {
+              heapSnapshots: Boolean(options.heapSnapshots),
+              trace: Boolean(options.trace),
+              cpuProfile: options.cpuProfile
+                ? {
+                    samplingIntervalUs: options.cpuSamplingInterval,
+                    topCount: options.cpuTop,
+                  }
+                : undefined,
+            },
+          );
+          const metrics = takeMetrics();
+          runMetrics.push(metrics);
+          exportedMetrics.push({
+            labels: {
+              scenario: scenario.name,
+              channel: config.channel,
+              runId: timestamp,
+              serverVersion: manifest.serverVersion,
+              run,
+            },
+            metrics,
+          });
+
+          if (
+            await reportLeakVerdict(
+              scenario,
+              measurements,
+              config,
+              runTimestamp,
+            )
+          ) {
+            hasLeaks = true;
+          }
+        } catch (err) {
+          console.error(`Error running test ${scenario.name}:`, err);
+          scenarioError ??= err;
+          hasFailures = true;
+          // Continue with next run instead of failing completely
         }
-      } catch (err) {
-        console.error(`Error running test ${testType}:`, err);
-        hasFailures = true;
-        // Continue with next test instead of failing completely
       }
+
+      if (runMetrics.length > 0) {
+        aggregates.set(
+          scenario.name,
+          await saveRunAggregate(scenario, runMetrics, timestamp),
+        );
+      }
+
+      await manifest.endScenario(scenarioError);
     }
 
     console.log('\nAll tests completed.');
-    
+
+    await exportRunMetrics(
+      exportedMetrics,
+      timestamp,
+      runStartTime,
+      options.pushUrl,
+      options.pushFormat,
+    );
+
+    const hasBudgetBreaches = budgets
+      ? await reportBudgets(budgets, aggregates, timestamp)
+      : false;
+
     // Wait a moment before closing browser to ensure all data is processed
     console.log('Waiting 5 seconds before closing browser...');
-    await new Promise(resolve => setTimeout(resolve, 5000));
+    await new Promise((resolve) => setTimeout(resolve, 5000));
 
     // Close the browser
     await browser.close();
-    
+
+    if (seedOptions && options.seedCleanup) {
+      try {
+        await cleanupSeed(config, seedOptions.seed);
+      } catch (err) {
+        console.error('Error removing the seeded dataset:', err);
+      }
+    }
+
+    await manifest.finish();
+    console.log(`Run manifest saved to ${runDirectory}`);
+
+    if (hasLeaks) {
+      console.log('Memory leaks detected. Check the leak verdict files.');
+      process.exitCode = EXIT_CODE_LEAK;
+    }
+
+    if (hasBudgetBreaches) {
+      console.log('Budgets were breached. Check the budget results.');
+      process.exitCode = EXIT_CODE_BUDGET;
+    }
+
     if (hasFailures) {
       console.log('Some tests had failures. Check logs for details.');
+      process.exitCode = EXIT_CODE_FAILURE;
     }
   } catch (error) {
     console.error('An error occurred:', error);
@@ -177,4 +726,140 @@ async function main(): Promise<void> {
   }
 }
 
-main();
+program.action(main);
+
+program
+  .command('compare')
+  .description('Compare the metrics of a candidate run against a baseline run')
+  .argument('<baselineRun>', 'Baseline run directory or id in ./results')
+  .argument('<candidateRun>', 'Candidate run directory or id in ./results')
+  .option(
+    '--alpha <p>',
+    'Significance level of the Mann-Whitney U test',
+    parseProbability,
+    DEFAULT_COMPARE_ALPHA,
+  )
+  .option(
+    '--tolerance <percent>',
+    'Median changes within this percentage are never flagged',
+    parseNonNegativeNumber,
+    DEFAULT_COMPARE_TOLERANCE_PERCENT,
+  )
+  .option(
+    '--output <file>',
+    'Markdown file to write, defaults to the candidate run directory',
+  )
+  .action(async (baselineRun: string, candidateRun: string, compareOptions) => {
+    try {
+      await compareCommand(baselineRun, candidateRun, {
+        alpha: compareOptions.alpha,
+        tolerancePercent: compareOptions.tolerance,
+        output: compareOptions.output,
+      });
+    } catch (error) {
+      console.error('An error occurred:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('report')
+  .description('Turn the results of a run into a self-contained HTML report')
+  .argument('<run>', 'Run directory or id in ./results')
+  .option(
+    '--output <file>',
+    'HTML file to write, defaults to report.html in the run directory',
+  )
+  .action(async (run: string, reportOptions) => {
+    try {
+      await reportCommand(run, {output: reportOptions.output});
+    } catch (error) {
+      console.error('An error occurred:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('recover')
+  .description(
+    'Rebuild the results of an interrupted run from its partial streams',
+  )
+  .argument('<run>', 'Run directory or id in ./results')
+  .action(async (run: string) => {
+    try {
+      await recoverCommand(run);
+    } catch (error) {
+      console.error('An error occurred:', error);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('fixture')
+  .description(
+    'Serve a stand-in Mattermost webapp to run the profiler against offline',
+  )
+  .option(
+    '--port <port>',
+    'Port to listen on',
+    parsePositiveInteger,
+    DEFAULT_FIXTURE_OPTIONS.port,
+  )
+  .option(
+    '--channels <count>',
+    'Channels in the sidebar',
+    parsePositiveInteger,
+    DEFAULT_FIXTURE_OPTIONS.channels,
+  )
+  .option(
+    '--posts <count>',
+    'Posts in each channel',
+    parsePositiveInteger,
+    DEFAULT_FIXTURE_OPTIONS.postsPerChannel,
+  )
+  .option(
+    '--latency <ms>',
+    'Delay of every API response in milliseconds',
+    parseNonNegativeNumber,
+    DEFAULT_FIXTURE_OPTIONS.latencyMs,
+  )
+  .option(
+    '--leak-kb <kb>',
+    'Heap retained on every channel switch in KB, with the old post list',
+    parseNonNegativeNumber,
+    DEFAULT_FIXTURE_OPTIONS.leakKbPerSwitch,
+  )
+  .option(
+    '--jank-ms <ms>',
+    'Duration of a long task injected every --jank-interval milliseconds',
+    parseNonNegativeNumber,
+    DEFAULT_FIXTURE_OPTIONS.jankMs,
+  )
+  .option(
+    '--jank-interval <ms>',
+    'Time between injected long tasks in milliseconds',
+    parsePositiveInteger,
+    DEFAULT_FIXTURE_OPTIONS.jankIntervalMs,
+  )
+  .action(async (fixtureOptions) => {
+    try {
+      const server = await startFixtureServer({
+        port: fixtureOptions.port,
+        channels: fixtureOptions.channels,
+        postsPerChannel: fixtureOptions.posts,
+        latencyMs: fixtureOptions.latency,
+        leakKbPerSwitch: fixtureOptions.leakKb,
+        jankMs: fixtureOptions.jankMs,
+        jankIntervalMs: fixtureOptions.jankInterval,
+      });
+      console.log(
+        `Fixture server listening on ${server.url}, run the profiler with --base-url ${server.url}`,
+      );
+    } catch (error) {
+      console.error('An error occurred:', error);
+      process.exit(1);
+    }
+  });
+
+// Parse arguments
+program.parseAsync();
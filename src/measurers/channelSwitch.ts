@@ -0,0 +1,191 @@
+import {Page} from 'puppeteer';
+import {POST_LIST_SELECTOR} from './postList';
+import {percentile, mean} from '../analysis/statistics';
+
+// The post list counts as stable once it has not changed for this long
+const STABLE_QUIET_MS = 500;
+
+// Give up waiting for a switch to complete after this long
+const SWITCH_TIMEOUT_MS = 10000;
+
+export interface ChannelSwitchTiming {
+  timeToUrlChange?: number; // ms from the click until the URL changed
+  timeToFirstPost?: number; // ms until a post of the new channel was rendered
+  timeToStable?: number; // ms until the post list stopped changing
+  timedOut: boolean;
+  alreadyOpen: boolean; // The channel was open already, nothing to time
+}
+
+export interface LatencyDistribution {
+  metric: string;
+  count: number;
+  min: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+  mean: number;
+}
+
+const SWITCH_TIMING_METRICS = [
+  'timeToUrlChange',
+  'timeToFirstPost',
+  'timeToStable',
+] as const;
+
+/**
+ * Clicks a sidebar channel and times the switch from inside the page.
+ * A MutationObserver on the post list detects the first post of the new
+ * channel and when the list stops changing.
+ */
+export async function measureChannelSwitch(
+  page: Page,
+  sidebarItemId: string,
+): Promise<ChannelSwitchTiming> {
+  const timing = await page.evaluate(
+    (id, postListSelector, quietMs, timeoutMs) =>
+      new Promise<{
+        timeToUrlChange?: number;
+        timeToFirstPost?: number;
+        timeToStable?: number;
+        timedOut: boolean;
+        alreadyOpen: boolean;
+      }>((resolve) => {
+        const element = document.getElementById(id) as HTMLAnchorElement;
+        if (!element) {
+          console.error(`Channel with id ${id} not found`);
+          resolve({timedOut: true, alreadyOpen: false});
+          return;
+        }
+
+        // Clicking the open channel changes nothing that could be timed
+        if (
+          element.href &&
+          new URL(element.href, location.href).pathname === location.pathname
+        ) {
+          resolve({timedOut: false, alreadyOpen: true});
+          return;
+        }
+
+        const startUrl = location.href;
+        const previousPosts = new Set(
+          Array.from(document.querySelectorAll(`${postListSelector} .post`)),
+        );
+
+        let timeToUrlChange: number | undefined;
+        let timeToFirstPost: number | undefined;
+        let lastListChange: number | undefined;
+        let done = false;
+        let start = 0;
+
+        const finish = (timedOut: boolean, timeToStable?: number) => {
+          if (done) return;
+          done = true;
+          observer.disconnect();
+          clearTimeout(timeout);
+          resolve({
+            timeToUrlChange,
+            timeToFirstPost,
+            timeToStable,
+            timedOut,
+            alreadyOpen: false,
+          });
+        };
+
+        const check = () => {
+          const now = performance.now() - start;
+
+          if (timeToUrlChange === undefined && location.href !== startUrl) {
+            timeToUrlChange = now;
+          }
+
+          if (timeToUrlChange !== undefined && timeToFirstPost === undefined) {
+            const posts = document.querySelectorAll(
+              `${postListSelector} .post`,
+            );
+            if (Array.from(posts).some((post) => !previousPosts.has(post))) {
+              timeToFirstPost = now;
+              lastListChange = now;
+            }
+          }
+        };
+
+        // The whole body is observed as the post list itself gets replaced
+        const observer = new MutationObserver((mutations) => {
+          check();
+          const list = document.querySelector(postListSelector);
+          if (
+            timeToFirstPost !== undefined &&
+            list &&
+            mutations.some((mutation) => list.contains(mutation.target))
+          ) {
+            lastListChange = performance.now() - start;
+          }
+        });
+
+        // Stability is a lack of mutations, so it has to be polled
+        const poll = () => {
+          if (done) return;
+          check();
+          const now = performance.now() - start;
+          if (lastListChange !== undefined && now - lastListChange >= quietMs) {
+            finish(false, lastListChange);
+            return;
+          }
+          requestAnimationFrame(poll);
+        };
+
+        const timeout = setTimeout(() => finish(true), timeoutMs);
+
+        observer.observe(document.body, {
+          childList: true,
+          subtree: true,
+          characterData: true,
+        });
+
+        start = performance.now();
+        element.click();
+        requestAnimationFrame(poll);
+      }),
+    sidebarItemId,
+    POST_LIST_SELECTOR,
+    STABLE_QUIET_MS,
+    SWITCH_TIMEOUT_MS,
+  );
+
+  const round = (value?: number) =>
+    value === undefined ? undefined : Math.round(value);
+
+  return {
+    timeToUrlChange: round(timing.timeToUrlChange),
+    timeToFirstPost: round(timing.timeToFirstPost),
+    timeToStable: round(timing.timeToStable),
+    timedOut: timing.timedOut,
+    alreadyOpen: timing.alreadyOpen,
+  };
+}
+
+/**
+ * Distribution of each switch latency over all switches that reached it
+ */
+export function summarizeChannelSwitches(
+  timings: ChannelSwitchTiming[],
+): LatencyDistribution[] {
+  return SWITCH_TIMING_METRICS.map((metric) => {
+    const values = timings
+      .map((timing) => timing[metric])
+      .filter((value): value is number => value !== undefined);
+    const round = (value: number) => parseFloat(value.toFixed(1));
+
+    return {
+      metric,
+      count: values.length,
+      min: round(values.length > 0 ? Math.min(...values) : NaN),
+      p50: round(percentile(values, 50)),
+      p90: round(percentile(values, 90)),
+      p99: round(percentile(values, 99)),
+      max: round(values.length > 0 ? Math.max(...values) : NaN),
+      mean: round(mean(values)),
+    };
+  });
+}
@@ -0,0 +1,95 @@
+import {CDPSession, Page} from 'puppeteer';
+import * as fs from 'fs/promises';
+import {
+  createAndSaveToFiles,
+  createFilePath,
+  ensureResultsDirectory,
+  recordArtifact,
+} from './toFile';
+import {summarizeCpuProfile} from '../analysis/cpuProfile';
+
+// Functions listed in the console, the saved summary has the top N
+const CPU_SUMMARY_LOG_LIMIT = 10;
+
+/**
+ * Class that samples the page's JavaScript call stacks with the V8 profiler
+ */
+export class CpuProfiler {
+  private page: Page;
+  private filename: string;
+  private samplingIntervalUs: number;
+  private topCount: number;
+  private client: CDPSession | null = null;
+
+  /**
+   * @param samplingIntervalUs Time between samples in microseconds
+   * @param topCount Functions kept in the summary, by self and by total time
+   */
+  constructor(
+    page: Page,
+    filename: string,
+    samplingIntervalUs: number,
+    topCount: number,
+  ) {
+    this.page = page;
+    this.filename = filename;
+    this.samplingIntervalUs = samplingIntervalUs;
+    this.topCount = topCount;
+  }
+
+  async start(): Promise<void> {
+    if (this.client) {
+      console.log('CPU profiling is already running');
+      return;
+    }
+
+    this.client = await this.page.createCDPSession();
+    await this.client.send('Profiler.enable');
+    // The interval can only be changed while the profiler is stopped
+    await this.client.send('Profiler.setSamplingInterval', {
+      interval: this.samplingIntervalUs,
+    });
+    await this.client.send('Profiler.start');
+
+    console.log(
+      `Started CPU profiling, sampling every ${this.samplingIntervalUs}µs...`,
+    );
+  }
+
+  /**
+   * Stops profiling, saves the raw .cpuprofile and the hot function summary.
+   * Returns the path of the .cpuprofile file.
+   */
+  async stop(): Promise<string | undefined> {
+    if (!this.client) {
+      console.log('No CPU profiling is running');
+      return undefined;
+    }
+
+    const client = this.client;
+    this.client = null;
+
+    const {profile} = await client.send('Profiler.stop');
+    await client.send('Profiler.disable');
+    await client.detach();
+
+    await ensureResultsDirectory();
+    const outputFile = createFilePath(this.filename, '.cpuprofile');
+    await fs.writeFile(outputFile, JSON.stringify(profile));
+    recordArtifact(outputFile);
+    console.log(`CPU profile saved to ${outputFile}`);
+
+    const summary = summarizeCpuProfile(profile, this.topCount);
+    await createAndSaveToFiles(summary.functions, `${this.filename}-functions`);
+    await createAndSaveToFiles(summary.urls, `${this.filename}-urls`);
+
+    console.log(`Hottest functions by self time over ${summary.durationMs}ms:`);
+    for (const f of summary.functions.slice(0, CPU_SUMMARY_LOG_LIMIT)) {
+      console.log(
+        `  ${f.selfTimeMs}ms (${f.selfPercent}%) ${f.functionName} ${f.url}:${f.lineNumber}`,
+      );
+    }
+
+    return outputFile;
+  }
+}
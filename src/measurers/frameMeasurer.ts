@@ -0,0 +1,35 @@
+import {Page} from 'puppeteer';
+import {FrameRateMeasurer} from './frameRate';
+import {FrameTimingMeasurer} from './frameTiming';
+
+// 'fps' samples frames per second in buckets, 'timing' records every frame
+export type FrameMeasurementMode = 'fps' | 'timing';
+
+export const FRAME_MEASUREMENT_MODES: FrameMeasurementMode[] = [
+  'fps',
+  'timing',
+];
+
+export interface FrameMeasurer {
+  start(): Promise<void>;
+  stop(): Promise<unknown[]>;
+}
+
+/**
+ * Creates the frame measurer for a scenario in the configured mode
+ */
+export function createFrameMeasurer(
+  page: Page,
+  mode: FrameMeasurementMode,
+  scenarioName: string,
+  timestamp: string,
+): FrameMeasurer {
+  if (mode === 'timing') {
+    return new FrameTimingMeasurer(
+      page,
+      `${scenarioName}-frametiming-${timestamp}`,
+    );
+  }
+
+  return new FrameRateMeasurer(page, `${scenarioName}-framerate-${timestamp}`);
+}
@@ -1,7 +1,8 @@
 import {Page} from 'puppeteer';
-import {formatTimestamp, createAndSaveToFiles} from './toFile';
-import * as fs from 'fs/promises';
-import * as path from 'path';
+import {formatTimestamp} from './toFile';
+import {ResultStream} from './resultStream';
+import {recordMetric} from './metrics';
+import {mean, percentile} from '../analysis/statistics';
 
 // Measurement interval in milliseconds
 const MEASUREMENT_INTERVAL = 100;
@@ -13,6 +14,12 @@ export interface FrameRateMeasurement {
   frameRate: number; // Frames per second (frame rate)
 }
 
+const FRAME_RATE_COLUMNS: Array<keyof FrameRateMeasurement> = [
+  'timestamp',
+  'diffTimestamp',
+  'frameRate',
+];
+
 // Declare interface for our dynamic window properties
 declare global {
   interface Window {
@@ -34,7 +41,7 @@ declare global {
 export class FrameRateMeasurer {
   private page: Page;
   private isRunning: boolean = false;
-  private measurements: FrameRateMeasurement[] = [];
+  private stream: ResultStream<FrameRateMeasurement>;
   private filename: string;
   private nodeInterval: NodeJS.Timeout | null = null;
   private startTime: number = 0;
@@ -44,6 +51,7 @@ export class FrameRateMeasurer {
   constructor(page: Page, filename: string) {
     this.page = page;
     this.filename = filename;
+    this.stream = new ResultStream(filename);
   }
 
   /**
@@ -57,7 +65,7 @@ export class FrameRateMeasurer {
 
     console.log('Started framerate measurement with direct FPS counting...');
     this.isRunning = true;
-    this.measurements = [];
+    this.stream = new ResultStream(this.filename);
     this.startTime = Date.now();
     this.frameCount = 0;
     this.lastFrameTimestamp = this.startTime;
@@ -151,7 +159,7 @@ export class FrameRateMeasurer {
   }
 
   /**
-   * Retrieves current measurements from browser
+   * Retrieves current measurements from browser and appends them to the stream
    */
   private async retrieveCurrentMeasurements(): Promise<void> {
     try {
@@ -162,10 +170,7 @@ export class FrameRateMeasurer {
         return data;
       });
 
-      const count = currentData.length;
-      if (count > 0) {
-        this.measurements = [...this.measurements, ...currentData];
-      }
+      await this.stream.append(currentData);
     } catch (err) {
       console.error('Error retrieving frame measurements:', err);
     }
@@ -212,43 +217,19 @@ export class FrameRateMeasurer {
     this.isRunning = false;
 
     // Sort by timestamp
-    this.measurements.sort((a, b) => a.timestamp - b.timestamp);
+    const measurements = await this.stream.readAll();
+    measurements.sort((a, b) => a.timestamp - b.timestamp);
 
     // Ensure we have data before saving
-    if (this.measurements.length > 0) {
-      try {
-        await this.saveResults(this.filename);
-      } catch (err) {
-        console.error('Error auto-saving results:', err);
-
-        // Emergency save to JSON as a backup
-        const emergencyFile = path.join(
-          process.cwd(),
-          'results',
-          `${this.filename}-emergency.json`,
-        );
-        await fs.writeFile(
-          emergencyFile,
-          JSON.stringify(this.measurements, null, 2),
-        );
-        console.log(`Emergency backup saved to ${emergencyFile}`);
-      }
-    }
-
-    return this.measurements;
-  }
+    if (measurements.length > 0) {
+      // The low percentile tells about stutter the mean hides
+      const frameRates = measurements.map((m) => m.frameRate);
+      recordMetric('frameRate.meanFps', mean(frameRates));
+      recordMetric('frameRate.p5Fps', percentile(frameRates, 5));
 
-  async saveResults(filename: string): Promise<void> {
-    if (this.measurements.length === 0) {
-      console.error('Cannot save empty framerate measurements');
-      return;
+      await this.stream.save('csv', FRAME_RATE_COLUMNS, measurements);
     }
 
-    try {
-      await createAndSaveToFiles(this.measurements, filename);
-    } catch (err) {
-      console.error('Error saving frame rate data:', err);
-      throw err;
-    }
+    return measurements;
   }
 }
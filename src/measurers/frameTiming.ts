@@ -0,0 +1,215 @@
+import {Page} from 'puppeteer';
+import {saveToJson} from './toFile';
+import {ResultStream} from './resultStream';
+import {percentile} from '../analysis/statistics';
+import {recordMetrics} from './metrics';
+
+// How often buffered frames are pulled from the page, in milliseconds
+const BATCH_INTERVAL = 2000;
+
+// Time available to render one frame at 60 frames per second
+export const FRAME_BUDGET_MS = 1000 / 60;
+
+export interface FrameTiming {
+  timestamp: number; // Absolute timestamp of the frame (ms since epoch)
+  diffTimestamp: number; // Relative timestamp (ms since start of measurement)
+  frameTime: number; // Time since the previous frame in ms
+}
+
+const FRAME_TIMING_COLUMNS: Array<keyof FrameTiming> = [
+  'timestamp',
+  'diffTimestamp',
+  'frameTime',
+];
+
+export interface FrameTimingSummary {
+  frameCount: number;
+  durationMs: number;
+  p50FrameTimeMs: number;
+  p90FrameTimeMs: number;
+  p95FrameTimeMs: number;
+  p99FrameTimeMs: number;
+  framesOverBudget: number; // Frames that took longer than the budget
+  droppedFrames: number; // Frames that should have been rendered but were not
+  longestFrameMs: number; // Longest interval without a new frame
+}
+
+declare global {
+  interface Window {
+    __frameTimingBuffer?: Array<{timestamp: number; frameTime: number}>;
+    __isFrameTimingMeasuring?: boolean;
+  }
+}
+
+/**
+ * Class that records the time between every pair of consecutive frames.
+ * Frames are buffered in the page and pulled in batches, so measuring
+ * does not add a round trip to the page on every frame.
+ */
+export class FrameTimingMeasurer {
+  private page: Page;
+  private isRunning: boolean = false;
+  private stream: ResultStream<FrameTiming>;
+  private filename: string;
+  private nodeInterval: NodeJS.Timeout | null = null;
+  private startTime: number = 0;
+
+  constructor(page: Page, filename: string) {
+    this.page = page;
+    this.filename = filename;
+    this.stream = new ResultStream(filename);
+  }
+
+  /**
+   * Starts recording frame times in the page
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.log('Frame timing measurement is already running');
+      return;
+    }
+
+    console.log('Started frame timing measurement...');
+    this.isRunning = true;
+    this.stream = new ResultStream(this.filename);
+    this.startTime = Date.now();
+
+    try {
+      await this.page.evaluate(() => {
+        window.__frameTimingBuffer = [];
+        window.__isFrameTimingMeasuring = true;
+
+        let previousFrame = performance.now();
+
+        function recordFrame(now: number) {
+          if (!window.__isFrameTimingMeasuring) return;
+
+          window.__frameTimingBuffer!.push({
+            timestamp: performance.timeOrigin + now,
+            frameTime: now - previousFrame,
+          });
+          previousFrame = now;
+
+          requestAnimationFrame(recordFrame);
+        }
+
+        requestAnimationFrame(recordFrame);
+      });
+
+      this.nodeInterval = setInterval(async () => {
+        await this.retrieveCurrentMeasurements();
+      }, BATCH_INTERVAL);
+    } catch (err) {
+      console.error('Error starting frame timing measurement:', err);
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Pulls the frames buffered in the page since the last batch and appends
+   * them to the stream
+   */
+  private async retrieveCurrentMeasurements(): Promise<void> {
+    try {
+      const batch = await this.page.evaluate(() => {
+        const data = window.__frameTimingBuffer || [];
+        window.__frameTimingBuffer = [];
+        return data;
+      });
+
+      await this.stream.append(
+        batch.map((frame) => ({
+          timestamp: Math.round(frame.timestamp),
+          diffTimestamp: Math.round(frame.timestamp - this.startTime),
+          frameTime: parseFloat(frame.frameTime.toFixed(2)),
+        })),
+      );
+    } catch (err) {
+      console.error('Error retrieving frame timings:', err);
+    }
+  }
+
+  /**
+   * Stops recording and saves the raw frame times and their summary
+   */
+  async stop(): Promise<FrameTiming[]> {
+    if (!this.isRunning) {
+      console.log('No frame timing measurement is running');
+      return [];
+    }
+
+    if (this.nodeInterval) {
+      clearInterval(this.nodeInterval);
+      this.nodeInterval = null;
+    }
+
+    await this.retrieveCurrentMeasurements();
+
+    try {
+      await this.page.evaluate(() => {
+        window.__isFrameTimingMeasuring = false;
+        delete window.__frameTimingBuffer;
+        delete window.__isFrameTimingMeasuring;
+      });
+    } catch (err) {
+      console.error('Error stopping browser frame timing:', err);
+    }
+
+    this.isRunning = false;
+
+    const measurements = await this.stream.readAll();
+    if (measurements.length > 0) {
+      const summary = summarizeFrameTimings(measurements);
+      console.log(
+        `Frame times: p50 ${summary.p50FrameTimeMs}ms, p90 ${summary.p90FrameTimeMs}ms, p99 ${summary.p99FrameTimeMs}ms, ${summary.droppedFrames} dropped, longest ${summary.longestFrameMs}ms`,
+      );
+
+      recordMetrics('frameTiming', summary);
+
+      await this.stream.save('csv', FRAME_TIMING_COLUMNS);
+      await saveToJson(summary, `${this.filename}-summary`);
+    }
+
+    return measurements;
+  }
+}
+
+/**
+ * Computes frame time percentiles and how many frames missed the budget
+ */
+export function summarizeFrameTimings(
+  frames: FrameTiming[],
+): FrameTimingSummary {
+  const frameTimes = frames.map((frame) => frame.frameTime);
+  const round = (value: number) => parseFloat(value.toFixed(2));
+
+  let framesOverBudget = 0;
+  let droppedFrames = 0;
+  for (const frameTime of frameTimes) {
+    if (frameTime > FRAME_BUDGET_MS) {
+      framesOverBudget++;
+      // A frame taking 2.5 budgets means 2 vsyncs went by without a new frame
+      droppedFrames += Math.max(0, Math.round(frameTime / FRAME_BUDGET_MS) - 1);
+    }
+  }
+
+  return {
+    frameCount: frames.length,
+    durationMs:
+      frames.length > 0
+        ? frames[frames.length - 1].timestamp - frames[0].timestamp
+        : 0,
+    p50FrameTimeMs: round(percentile(frameTimes, 50)),
+    p90FrameTimeMs: round(percentile(frameTimes, 90)),
+    p95FrameTimeMs: round(percentile(frameTimes, 95)),
+    p99FrameTimeMs: round(percentile(frameTimes, 99)),
+    framesOverBudget,
+    droppedFrames,
+    longestFrameMs: round(
+      frameTimes.reduce(
+        (longest, frameTime) => Math.max(longest, frameTime),
+        0,
+      ),
+    ),
+  };
+}
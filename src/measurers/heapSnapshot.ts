@@ -0,0 +1,42 @@
+import {Page} from 'puppeteer';
+import * as fs from 'fs/promises';
+import {createFilePath, ensureResultsDirectory, recordArtifact} from './toFile';
+
+/**
+ * Takes a heap snapshot of the page and writes it to a .heapsnapshot file
+ * that can be loaded in the DevTools Memory panel.
+ * Returns the path of the written file.
+ */
+export async function takeHeapSnapshot(
+  page: Page,
+  filename: string,
+): Promise<string> {
+  await ensureResultsDirectory();
+  const outputFile = createFilePath(filename, '.heapsnapshot');
+
+  const client = await page.createCDPSession();
+  const file = await fs.open(outputFile, 'w');
+
+  // Chunks arrive as events while takeHeapSnapshot is pending,
+  // write them in order without keeping the whole snapshot in memory
+  let writeChain: Promise<unknown> = Promise.resolve();
+  const onChunk = ({chunk}: {chunk: string}) => {
+    writeChain = writeChain.then(() => file.write(chunk));
+  };
+
+  try {
+    client.on('HeapProfiler.addHeapSnapshotChunk', onChunk);
+    await client.send('HeapProfiler.enable');
+    await client.send('HeapProfiler.takeHeapSnapshot', {reportProgress: false});
+    await writeChain;
+  } finally {
+    client.off('HeapProfiler.addHeapSnapshotChunk', onChunk);
+    await file.close();
+    await client.detach();
+  }
+
+  recordArtifact(outputFile);
+  console.log(`Heap snapshot saved to ${outputFile}`);
+
+  return outputFile;
+}
@@ -0,0 +1,433 @@
+import {Page} from 'puppeteer';
+import {saveToJson} from './toFile';
+import {ResultStream} from './resultStream';
+import {recordMetrics} from './metrics';
+
+// How often buffered entries are pulled from the page, in milliseconds
+const BATCH_INTERVAL = 2000;
+
+// Main thread work beyond this many ms blocks input, as in Total Blocking Time
+const BLOCKING_THRESHOLD_MS = 50;
+
+// Shortest event duration the browser reports to observers
+const EVENT_DURATION_THRESHOLD_MS = 16;
+
+// Layout shifts are grouped in windows of at most 5s with gaps under 1s
+const LAYOUT_SHIFT_WINDOW_MS = 5000;
+const LAYOUT_SHIFT_GAP_MS = 1000;
+
+const OBSERVED_ENTRY_TYPES = [
+  'longtask',
+  'long-animation-frame',
+  'layout-shift',
+  'event',
+];
+
+export interface PerformanceEntryRecord {
+  timestamp: number; // Absolute start of the entry (ms since epoch)
+  diffTimestamp: number; // Start relative to the start of measurement in ms
+  entryType: string;
+  name: string;
+  duration: number;
+  blockingDuration?: number; // Long tasks and long animation frames
+  value?: number; // Layout shift score
+  hadRecentInput?: boolean; // Layout shifts right after input are expected
+  interactionId?: number; // Event timing, events of one interaction share it
+  inputDelay?: number; // Event timing, time before handlers started
+  processingDuration?: number; // Event timing, time spent in handlers
+  attribution: string; // What caused the entry, when the browser tells
+}
+
+// Every entry type gets the same columns, most fields only apply to one type
+const PERFORMANCE_ENTRY_COLUMNS: Array<keyof PerformanceEntryRecord> = [
+  'timestamp',
+  'diffTimestamp',
+  'entryType',
+  'name',
+  'duration',
+  'blockingDuration',
+  'value',
+  'hadRecentInput',
+  'interactionId',
+  'inputDelay',
+  'processingDuration',
+  'attribution',
+];
+
+export interface MainThreadSummary {
+  longTaskCount: number;
+  longestTaskMs: number;
+  totalBlockingTimeMs: number;
+  longAnimationFrameCount: number;
+  longAnimationFrameBlockingMs: number;
+  cumulativeLayoutShift: number;
+  interactionCount: number;
+  worstInteractionMs: number;
+  worstInteraction: string; // Event name and target of the worst interaction
+}
+
+// Fields of the observed entry types, most only exist on one of them
+type ObservedEntry = PerformanceEntry & {
+  attribution?: Array<{
+    containerType?: string;
+    containerName?: string;
+    containerSrc?: string;
+  }>; // Long tasks
+  blockingDuration?: number; // Long animation frames
+  scripts?: Array<{
+    invoker?: string;
+    invokerType?: string;
+    sourceURL?: string;
+    duration: number;
+  }>; // Long animation frames
+  value?: number; // Layout shifts
+  hadRecentInput?: boolean; // Layout shifts
+  sources?: Array<{node?: Node | null}>; // Layout shifts
+  interactionId?: number; // Events
+  processingStart?: number; // Events
+  processingEnd?: number; // Events
+  target?: Node | null; // Events
+};
+
+declare global {
+  interface Window {
+    __performanceEntryBuffer?: Array<
+      Omit<PerformanceEntryRecord, 'diffTimestamp'>
+    >;
+    __performanceObservers?: PerformanceObserver[];
+  }
+}
+
+/**
+ * Class that collects long tasks, long animation frames, layout shifts and
+ * event timings through PerformanceObservers installed in the page
+ */
+export class MainThreadMeasurer {
+  private page: Page;
+  private isRunning: boolean = false;
+  private stream: ResultStream<PerformanceEntryRecord>;
+  private filename: string;
+  private nodeInterval: NodeJS.Timeout | null = null;
+  private startTime: number = 0;
+  private scriptIdentifier: string | null = null;
+
+  constructor(page: Page, filename: string) {
+    this.page = page;
+    this.filename = filename;
+    this.stream = new ResultStream(filename);
+  }
+
+  /**
+   * Installs the observers in the page and in every document it loads next
+   */
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.log('Main thread measurement is already running');
+      return;
+    }
+
+    this.isRunning = true;
+    this.stream = new ResultStream(this.filename);
+    this.startTime = Date.now();
+
+    try {
+      // Documents loaded later, when the scenario navigates, get them too
+      const {identifier} = await this.page.evaluateOnNewDocument(
+        installPerformanceObservers,
+        OBSERVED_ENTRY_TYPES,
+        EVENT_DURATION_THRESHOLD_MS,
+        true,
+      );
+      this.scriptIdentifier = identifier;
+
+      const observedTypes = await this.page.evaluate(
+        installPerformanceObservers,
+        OBSERVED_ENTRY_TYPES,
+        EVENT_DURATION_THRESHOLD_MS,
+        false,
+      );
+
+      console.log(
+        `Started main thread measurement (${observedTypes.join(', ')})`,
+      );
+
+      this.nodeInterval = setInterval(async () => {
+        await this.retrieveCurrentMeasurements();
+      }, BATCH_INTERVAL);
+    } catch (err) {
+      console.error('Error starting main thread measurement:', err);
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Pulls the entries buffered in the page since the last batch and appends
+   * them to the stream
+   */
+  private async retrieveCurrentMeasurements(): Promise<void> {
+    try {
+      const batch = await this.page.evaluate(() => {
+        const data = window.__performanceEntryBuffer || [];
+        window.__performanceEntryBuffer = [];
+        return data;
+      });
+
+      await this.stream.append(
+        batch.map((entry) => ({
+          ...entry,
+          timestamp: Math.round(entry.timestamp),
+          diffTimestamp: Math.round(entry.timestamp - this.startTime),
+          duration: Math.round(entry.duration),
+          blockingDuration:
+            entry.entryType === 'longtask'
+              ? Math.round(Math.max(0, entry.duration - BLOCKING_THRESHOLD_MS))
+              : entry.blockingDuration,
+        })),
+      );
+    } catch (err) {
+      console.error('Error retrieving performance entries:', err);
+    }
+  }
+
+  /**
+   * Disconnects the observers and saves the entries and their summary
+   */
+  async stop(): Promise<PerformanceEntryRecord[]> {
+    if (!this.isRunning) {
+      console.log('No main thread measurement is running');
+      return [];
+    }
+
+    if (this.nodeInterval) {
+      clearInterval(this.nodeInterval);
+      this.nodeInterval = null;
+    }
+
+    await this.retrieveCurrentMeasurements();
+
+    try {
+      if (this.scriptIdentifier) {
+        await this.page.removeScriptToEvaluateOnNewDocument(
+          this.scriptIdentifier,
+        );
+        this.scriptIdentifier = null;
+      }
+      await this.page.evaluate(() => {
+        for (const observer of window.__performanceObservers || []) {
+          observer.disconnect();
+        }
+        delete window.__performanceObservers;
+        delete window.__performanceEntryBuffer;
+      });
+    } catch (err) {
+      console.error('Error stopping performance observers:', err);
+    }
+
+    this.isRunning = false;
+
+    const measurements = await this.stream.readAll();
+    measurements.sort((a, b) => a.timestamp - b.timestamp);
+
+    const summary = summarizeMainThread(measurements);
+    console.log(
+      `Main thread: total blocking time ${summary.totalBlockingTimeMs}ms, worst interaction ${summary.worstInteractionMs}ms, CLS ${summary.cumulativeLayoutShift}`,
+    );
+
+    recordMetrics('mainThread', summary);
+
+    if (measurements.length > 0) {
+      await this.stream.save('csv', PERFORMANCE_ENTRY_COLUMNS, measurements);
+    }
+    await saveToJson(summary, `${this.filename}-summary`);
+
+    return measurements;
+  }
+}
+
+/**
+ * Computes total blocking time, worst interaction latency and layout shift
+ */
+export function summarizeMainThread(
+  entries: PerformanceEntryRecord[],
+): MainThreadSummary {
+  const longTasks = entries.filter((e) => e.entryType === 'longtask');
+  const longAnimationFrames = entries.filter(
+    (e) => e.entryType === 'long-animation-frame',
+  );
+
+  // An interaction's latency is its longest event
+  const interactions = new Map<number, PerformanceEntryRecord>();
+  for (const entry of entries) {
+    if (entry.entryType !== 'event' || !entry.interactionId) continue;
+    const current = interactions.get(entry.interactionId);
+    if (!current || entry.duration > current.duration) {
+      interactions.set(entry.interactionId, entry);
+    }
+  }
+  const worstInteraction = Array.from(interactions.values()).reduce<
+    PerformanceEntryRecord | undefined
+  >(
+    (worst, entry) =>
+      !worst || entry.duration > worst.duration ? entry : worst,
+    undefined,
+  );
+
+  return {
+    longTaskCount: longTasks.length,
+    longestTaskMs: longTasks.reduce((max, e) => Math.max(max, e.duration), 0),
+    totalBlockingTimeMs: longTasks.reduce(
+      (sum, e) => sum + (e.blockingDuration ?? 0),
+      0,
+    ),
+    longAnimationFrameCount: longAnimationFrames.length,
+    longAnimationFrameBlockingMs: Math.round(
+      longAnimationFrames.reduce(
+        (sum, e) => sum + (e.blockingDuration ?? 0),
+        0,
+      ),
+    ),
+    cumulativeLayoutShift: parseFloat(
+      cumulativeLayoutShift(entries).toFixed(4),
+    ),
+    interactionCount: interactions.size,
+    worstInteractionMs: worstInteraction?.duration ?? 0,
+    worstInteraction: worstInteraction
+      ? `${worstInteraction.name} ${worstInteraction.attribution}`.trim()
+      : '',
+  };
+}
+
+/**
+ * Largest session window of layout shifts not caused by recent input
+ */
+function cumulativeLayoutShift(entries: PerformanceEntryRecord[]): number {
+  let largestWindow = 0;
+  let windowValue = 0;
+  let windowStart = 0;
+  let previousShift = 0;
+
+  for (const entry of entries) {
+    if (entry.entryType !== 'layout-shift' || entry.hadRecentInput) continue;
+
+    if (
+      windowValue > 0 &&
+      entry.timestamp - previousShift < LAYOUT_SHIFT_GAP_MS &&
+      entry.timestamp - windowStart < LAYOUT_SHIFT_WINDOW_MS
+    ) {
+      windowValue += entry.value ?? 0;
+    } else {
+      windowValue = entry.value ?? 0;
+      windowStart = entry.timestamp;
+    }
+    previousShift = entry.timestamp;
+    largestWindow = Math.max(largestWindow, windowValue);
+  }
+
+  return largestWindow;
+}
+
+/**
+ * Installs the observers in the current document. Runs in the page, it may
+ * only use its arguments.
+ */
+function installPerformanceObservers(
+  entryTypes: string[],
+  durationThreshold: number,
+  restoreSaved: boolean,
+): string[] {
+  const SAVED_ENTRIES_KEY = '__performanceEntryBuffer';
+  // Entries the previous document saved when it was unloaded
+  const saved = restoreSaved ? sessionStorage.getItem(SAVED_ENTRIES_KEY) : null;
+  sessionStorage.removeItem(SAVED_ENTRIES_KEY);
+  window.__performanceEntryBuffer = saved ? JSON.parse(saved) : [];
+  window.__performanceObservers = [];
+
+  const describeNode = (node?: Node | null): string => {
+    if (!node || !node.nodeName) return '';
+    const element = node instanceof Element ? node : undefined;
+    const id = element?.id ? `#${element.id}` : '';
+    const className =
+      typeof element?.className === 'string' && element.className
+        ? `.${element.className.trim().split(/\s+/).join('.')}`
+        : '';
+    return `${node.nodeName.toLowerCase()}${id}${className}`;
+  };
+
+  const toRecord = (
+    entry: ObservedEntry,
+  ): Omit<PerformanceEntryRecord, 'diffTimestamp'> => {
+    const record: Omit<PerformanceEntryRecord, 'diffTimestamp'> = {
+      timestamp: performance.timeOrigin + entry.startTime,
+      entryType: entry.entryType,
+      name: entry.name,
+      duration: entry.duration,
+      attribution: '',
+    };
+
+    switch (entry.entryType) {
+      case 'longtask':
+        record.attribution = (entry.attribution || [])
+          .map((a) =>
+            [a.containerType, a.containerName || a.containerSrc]
+              .filter(Boolean)
+              .join(' '),
+          )
+          .join('; ');
+        break;
+      case 'long-animation-frame':
+        record.blockingDuration = entry.blockingDuration;
+        record.attribution = (entry.scripts || [])
+          .map((script) =>
+            `${script.invoker || script.invokerType} ${script.sourceURL || ''} ${Math.round(script.duration)}ms`.trim(),
+          )
+          .join('; ');
+        break;
+      case 'layout-shift':
+        record.value = entry.value;
+        record.hadRecentInput = entry.hadRecentInput;
+        record.attribution = (entry.sources || [])
+          .map((source) => describeNode(source.node))
+          .filter(Boolean)
+          .join('; ');
+        break;
+      case 'event': {
+        const processingStart = entry.processingStart ?? entry.startTime;
+        record.interactionId = entry.interactionId;
+        record.inputDelay = processingStart - entry.startTime;
+        record.processingDuration =
+          (entry.processingEnd ?? processingStart) - processingStart;
+        record.attribution = describeNode(entry.target);
+        break;
+      }
+    }
+
+    return record;
+  };
+
+  const supported = PerformanceObserver.supportedEntryTypes;
+  const observed: string[] = [];
+  for (const type of entryTypes) {
+    if (!supported.includes(type)) continue;
+
+    const observer = new PerformanceObserver((list) => {
+      for (const entry of list.getEntries()) {
+        window.__performanceEntryBuffer?.push(toRecord(entry));
+      }
+    });
+    observer.observe({type, durationThreshold} as PerformanceObserverInit);
+    window.__performanceObservers.push(observer);
+    observed.push(type);
+  }
+
+  // A navigation drops the buffer before the next batch is pulled
+  window.addEventListener('pagehide', () => {
+    if (window.__performanceObservers && window.__performanceEntryBuffer) {
+      sessionStorage.setItem(
+        SAVED_ENTRIES_KEY,
+        JSON.stringify(window.__performanceEntryBuffer),
+      );
+    }
+  });
+
+  return observed;
+}
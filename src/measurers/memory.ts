@@ -1,32 +1,91 @@
-import {Page} from 'puppeteer';
-import {convertTimestampsToSeconds, createAndSaveToFiles} from './toFile';
+import {CDPSession, Page} from 'puppeteer';
+import {convertTimestampsToSeconds} from './toFile';
+import {ResultStream} from './resultStream';
 
 export interface MemoryMetrics {
-  heapTotalMB: number;
+  heapTotalMB: number; // Heap reserved by V8, follows its allocation policy
+  heapUsedMB?: number; // Heap occupied by objects, live or not yet collected
+  nodes?: number; // DOM nodes, including detached ones not yet collected
+  jsEventListeners?: number;
+  documents?: number;
+  frames?: number;
+  layoutCount?: number; // Layouts since the page loaded
+  recalcStyleCount?: number; // Style recalculations since the page loaded
+  scriptDuration?: number; // Seconds spent running scripts since the page loaded
   timestamp: number; // Unix timestamp in milliseconds (from Date.now())
   diffTimestamp?: number; // Time difference in milliseconds from first measurement
   channelName?: string;
   channelAriaLabel?: string;
   channelId?: string;
+  iteration?: number; // Iteration of a repeated action the sample was taken after
+  afterGC?: boolean; // Whether garbage was force collected right before the sample
 }
 
-export async function measureMemoryUsage(page: Page): Promise<MemoryMetrics> {
-  // Create a new CDP session
-  const client = await page.createCDPSession();
+// Leading columns of memory CSVs, scenario specific fields follow
+export const MEMORY_COLUMNS: Array<keyof MemoryMetrics> = [
+  'timestamp',
+  'diffTimestamp',
+  'heapTotalMB',
+  'heapUsedMB',
+  'nodes',
+  'jsEventListeners',
+  'documents',
+  'frames',
+  'layoutCount',
+  'recalcStyleCount',
+  'scriptDuration',
+];
 
-  // Enable the Performance domain
-  await client.send('Performance.enable');
+// One CDP session with the Performance domain enabled per page
+const performanceSessions = new WeakMap<Page, Promise<CDPSession>>();
 
-  // Get metrics
-  const metrics = await client.send('Performance.getMetrics');
+function getPerformanceSession(page: Page): Promise<CDPSession> {
+  let session = performanceSessions.get(page);
+  if (!session) {
+    session = (async () => {
+      const client = await page.createCDPSession();
+      await client.send('Performance.enable');
+      return client;
+    })();
+    performanceSessions.set(page, session);
+    // Let a failed session be created again on the next sample
+    session.catch(() => performanceSessions.delete(page));
+  }
+  return session;
+}
 
-  const heapTotal =
-    metrics.metrics.find((m: any) => m.name === 'JSHeapTotalSize')?.value || 0;
+function toMB(bytes: number): number {
+  return parseFloat((bytes / 1024 / 1024).toFixed(2));
+}
 
-  // Convert to MB
-  const heapTotalMB = parseFloat((heapTotal / 1024 / 1024).toFixed(2));
+export async function measureMemoryUsage(page: Page): Promise<MemoryMetrics> {
+  const client = await getPerformanceSession(page);
 
-  return {heapTotalMB, timestamp: Date.now()};
+  // Get metrics
+  let metrics;
+  try {
+    metrics = await client.send('Performance.getMetrics');
+  } catch (err) {
+    // The session is gone (e.g. the target was swapped), start over next time
+    performanceSessions.delete(page);
+    throw err;
+  }
+
+  const values = new Map(metrics.metrics.map((m) => [m.name, m.value]));
+  const metric = (name: string) => values.get(name) || 0;
+
+  return {
+    heapTotalMB: toMB(metric('JSHeapTotalSize')),
+    heapUsedMB: toMB(metric('JSHeapUsedSize')),
+    nodes: metric('Nodes'),
+    jsEventListeners: metric('JSEventListeners'),
+    documents: metric('Documents'),
+    frames: metric('Frames'),
+    layoutCount: metric('LayoutCount'),
+    recalcStyleCount: metric('RecalcStyleCount'),
+    scriptDuration: parseFloat(metric('ScriptDuration').toFixed(3)),
+    timestamp: Date.now(),
+  };
 }
 
 export async function measureMemoryUsagePeriodically(
@@ -36,6 +95,7 @@ export async function measureMemoryUsagePeriodically(
   filename: string,
 ): Promise<MemoryMetrics[]> {
   const measurements: MemoryMetrics[] = [];
+  const stream = new ResultStream(filename);
   const startTime = Date.now();
   const endTime = startTime + duration;
 
@@ -50,15 +110,14 @@ export async function measureMemoryUsagePeriodically(
     }
 
     measurements.push(metrics);
+    // Timestamps are converted to include seconds
+    await stream.append(convertTimestampsToSeconds([metrics]));
 
     // Wait for the specified interval before taking the next measurement
     await new Promise((resolve) => setTimeout(resolve, interval));
   }
 
-  // Convert timestamps to include seconds
-  const dataWithSeconds = convertTimestampsToSeconds(measurements);
-
-  await createAndSaveToFiles(dataWithSeconds, filename);
+  await stream.save('csv', MEMORY_COLUMNS);
 
   return measurements;
 }
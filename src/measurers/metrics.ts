@@ -0,0 +1,33 @@
+// Metrics recorded since the last call to takeMetrics
+let metrics: Record<string, number> = {};
+
+/**
+ * Records a single number describing the current scenario run, such as its
+ * total blocking time. Runs of a scenario are compared on these.
+ */
+export function recordMetric(name: string, value: number): void {
+  if (!Number.isFinite(value)) {
+    return;
+  }
+  metrics[name] = value;
+}
+
+/**
+ * Records every numeric field of a summary as `<prefix>.<field>`
+ */
+export function recordMetrics(prefix: string, summary: object): void {
+  for (const [key, value] of Object.entries(summary)) {
+    if (typeof value === 'number') {
+      recordMetric(`${prefix}.${key}`, value);
+    }
+  }
+}
+
+/**
+ * Returns the metrics recorded since the last call
+ */
+export function takeMetrics(): Record<string, number> {
+  const taken = metrics;
+  metrics = {};
+  return taken;
+}
@@ -0,0 +1,197 @@
+import * as fs from 'fs/promises';
+import {createFilePath, ensureResultsDirectory, recordArtifact} from './toFile';
+
+// Prefix of exported metric names, and the Influx measurement
+const METRIC_PREFIX = 'mattermost_webapp';
+
+export type ExportFormat = 'openmetrics' | 'influx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['openmetrics', 'influx'];
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = {
+  openmetrics: '.prom',
+  influx: '.lp',
+};
+
+// The body ends with # EOF, so it is sent as OpenMetrics rather than the
+// older text exposition format
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  openmetrics: 'application/openmetrics-text; version=1.0.0; charset=utf-8',
+  influx: 'text/plain; charset=utf-8',
+};
+
+export interface MetricLabels {
+  scenario: string;
+  channel: string;
+  runId: string; // Run directory the metrics were saved in
+  serverVersion?: string;
+  run: number; // Repeated run of the scenario, from 1
+}
+
+// The metrics recorded in one run of a scenario
+export interface LabelledMetrics {
+  labels: MetricLabels;
+  metrics: Record<string, number>;
+}
+
+/**
+ * Formats run metrics as OpenMetrics text, one gauge per metric with a
+ * sample per scenario run:
+ *
+ *   mattermost_webapp_memory_final_heap_mb{scenario="...",run="1",...} 84.2
+ */
+export function formatOpenMetrics(samples: LabelledMetrics[]): string {
+  const families = new Map<string, string[]>();
+  for (const {labels, metrics} of samples) {
+    const labelText = Object.entries(labelPairs(labels))
+      .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+      .join(',');
+    for (const [metric, value] of Object.entries(metrics)) {
+      const name = openMetricsName(metric);
+      const lines = families.get(name) ?? [];
+      lines.push(`${name}{${labelText}} ${value}`);
+      families.set(name, lines);
+    }
+  }
+
+  // Samples of a metric must follow its TYPE line without interruption
+  const lines: string[] = [];
+  for (const [name, familyLines] of families) {
+    lines.push(`# TYPE ${name} gauge`, ...familyLines);
+  }
+  lines.push('# EOF', '');
+  return lines.join('\n');
+}
+
+/**
+ * Formats run metrics as InfluxDB line protocol, one line per scenario run
+ * with the labels as tags and the metrics as fields:
+ *
+ *   mattermost_webapp,scenario=...,run=1 memory.finalHeapMB=84.2 1713450605000000000
+ */
+export function formatInfluxLineProtocol(
+  samples: LabelledMetrics[],
+  timestamp: Date,
+): string {
+  const nanoseconds = String(BigInt(timestamp.getTime()) * 1_000_000n);
+  const lines = samples
+    .filter(({metrics}) => Object.keys(metrics).length > 0)
+    .map(({labels, metrics}) => {
+      const tags = Object.entries(labelPairs(labels))
+        .map(([key, value]) => `${key}=${escapeInflux(value)}`)
+        .join(',');
+      const fields = Object.entries(metrics)
+        .map(([metric, value]) => `${escapeInflux(metric)}=${value}`)
+        .join(',');
+      return `${METRIC_PREFIX},${tags} ${fields} ${nanoseconds}`;
+    });
+
+  return lines.map((line) => `${line}\n`).join('');
+}
+
+/**
+ * Saves run metrics in an export format next to the other results.
+ * Returns the path of the file.
+ */
+export async function saveMetricsExport(
+  samples: LabelledMetrics[],
+  filename: string,
+  format: ExportFormat,
+  timestamp: Date,
+): Promise<string> {
+  await ensureResultsDirectory();
+  const outputFile = createFilePath(filename, FILE_EXTENSIONS[format]);
+
+  await fs.writeFile(outputFile, formatMetrics(samples, format, timestamp));
+  recordArtifact(outputFile);
+  console.log(`Metrics exported to ${outputFile}`);
+
+  return outputFile;
+}
+
+/**
+ * Sends run metrics to a Pushgateway or an InfluxDB write endpoint.
+ * Returns whether the endpoint accepted them.
+ */
+export async function pushMetrics(
+  samples: LabelledMetrics[],
+  url: string,
+  format: ExportFormat,
+  timestamp: Date,
+): Promise<boolean> {
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {'Content-Type': CONTENT_TYPES[format]},
+      body: formatMetrics(samples, format, timestamp),
+    });
+    if (!response.ok) {
+      throw new Error(
+        `${response.status} ${response.statusText}: ${await response.text()}`,
+      );
+    }
+    console.log(`Metrics pushed to ${url}`);
+    return true;
+  } catch (err) {
+    console.error(`Error pushing metrics to ${url}:`, err);
+    return false;
+  }
+}
+
+function formatMetrics(
+  samples: LabelledMetrics[],
+  format: ExportFormat,
+  timestamp: Date,
+): string {
+  return format === 'openmetrics'
+    ? formatOpenMetrics(samples)
+    : formatInfluxLineProtocol(samples, timestamp);
+}
+
+/**
+ * Labels in snake case, without the ones that are not known
+ */
+function labelPairs(labels: MetricLabels): Record<string, string> {
+  const pairs: Record<string, string | number | undefined> = {
+    scenario: labels.scenario,
+    channel: labels.channel,
+    run_id: labels.runId,
+    server_version: labels.serverVersion,
+    run: labels.run,
+  };
+
+  // Influx rejects empty tag values
+  return Object.fromEntries(
+    Object.entries(pairs)
+      .filter(([, value]) => value !== undefined && value !== '')
+      .map(([key, value]) => [key, String(value)]),
+  );
+}
+
+/**
+ * Turns a metric such as memory.postGCHeapGrowthMB into
+ * mattermost_webapp_memory_post_gc_heap_growth_mb
+ */
+function openMetricsName(metric: string): string {
+  const snakeCase = metric
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9_]+/g, '_')
+    .toLowerCase();
+  return `${METRIC_PREFIX}_${snakeCase}`;
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+// Tag keys, tag values and field keys escape commas, equals signs and
+// spaces. Line breaks cannot be escaped, they would end the line.
+function escapeInflux(value: string): string {
+  return value
+    .replace(/[,= ]/g, (char) => `\\${char}`)
+    .replace(/\r?\n/g, '\\n');
+}
@@ -0,0 +1,414 @@
+import {CDPSession, Page, Protocol} from 'puppeteer';
+import {createAndSaveToFiles, saveToJson} from './toFile';
+import {ResultStream} from './resultStream';
+import {recordMetrics} from './metrics';
+import {currentPhase} from './trace';
+import {mean, percentile} from '../analysis/statistics';
+
+// How often finished requests are appended to the stream, in milliseconds
+const BATCH_INTERVAL = 2000;
+
+// Server generated ids, 26 lowercase letters and digits
+const ID_SEGMENT = /^[a-z0-9]{26}$/;
+
+// Path segments following these are names, e.g. /api/v4/teams/name/<name>
+const NAME_KEYS = ['name', 'username', 'email'];
+
+// Duplicates listed in the console, the saved file has all of them
+const DUPLICATE_LOG_LIMIT = 10;
+
+export interface NetworkRequestRecord {
+  timestamp: number; // When the request was sent (ms since epoch)
+  diffTimestamp: number; // Relative to the start of measurement in ms
+  phase: string; // Scenario phase marked when the request was sent
+  method: string;
+  endpoint: string; // URL pattern, e.g. /api/v4/channels/*/posts
+  url: string;
+  resourceType: string;
+  status: number; // 0 when the request failed
+  transferredBytes: number; // Received over the network, headers included
+  durationMs: number; // From sending the request until it finished
+  fromCache: boolean;
+  error: string; // Why a failed request failed
+}
+
+const NETWORK_REQUEST_COLUMNS: Array<keyof NetworkRequestRecord> = [
+  'timestamp',
+  'diffTimestamp',
+  'phase',
+  'method',
+  'endpoint',
+  'status',
+  'transferredBytes',
+  'durationMs',
+  'fromCache',
+  'resourceType',
+  'url',
+  'error',
+];
+
+export interface EndpointSummary {
+  method: string;
+  endpoint: string;
+  count: number;
+  errorCount: number; // Failed requests and error statuses
+  transferredBytes: number;
+  meanDurationMs: number;
+  p90DurationMs: number;
+  maxDurationMs: number;
+}
+
+export interface DuplicateFetch {
+  method: string;
+  url: string;
+  count: number; // Times it was fetched over the network
+  phases: string; // Phases that fetched it, in order
+}
+
+export interface NetworkSummary {
+  requestCount: number;
+  failedRequestCount: number;
+  transferredBytes: number;
+  duplicateFetchCount: number; // Fetches of a resource beyond its first
+  websocketFramesSent: number;
+  websocketFramesReceived: number;
+  websocketBytesSent: number;
+  websocketBytesReceived: number;
+}
+
+interface PendingRequest {
+  timestamp: number;
+  monotonicStart: number; // CDP timestamp in seconds
+  phase: string;
+  method: string;
+  url: string;
+  resourceType: string;
+  status: number;
+  fromCache: boolean;
+}
+
+/**
+ * Class that records every request of the page through CDP Network events,
+ * along with websocket traffic, and summarizes them per API endpoint
+ */
+export class NetworkMeasurer {
+  private page: Page;
+  private filename: string;
+  private baseOrigin: string;
+  private client: CDPSession | null = null;
+  private stream: ResultStream<NetworkRequestRecord>;
+  private startTime: number = 0;
+  private nodeInterval: NodeJS.Timeout | null = null;
+  private pending = new Map<string, PendingRequest>();
+  private finished: NetworkRequestRecord[] = [];
+  private websocket = {
+    framesSent: 0,
+    framesReceived: 0,
+    bytesSent: 0,
+    bytesReceived: 0,
+  };
+
+  private onRequest = (event: Protocol.Network.RequestWillBeSentEvent) => {
+    if (event.request.url.startsWith('data:')) {
+      return;
+    }
+    // A redirect reuses the request id, its first hop ends here
+    if (event.redirectResponse) {
+      this.finish(event.requestId, event.timestamp, {
+        status: event.redirectResponse.status,
+        transferredBytes: event.redirectResponse.encodedDataLength,
+      });
+    }
+    this.pending.set(event.requestId, {
+      timestamp: Math.round(event.wallTime * 1000),
+      monotonicStart: event.timestamp,
+      phase: currentPhase(this.page),
+      method: event.request.method,
+      url: event.request.url,
+      resourceType: event.type ?? 'Other',
+      status: 0,
+      fromCache: false,
+    });
+  };
+  private onResponse = (event: Protocol.Network.ResponseReceivedEvent) => {
+    const request = this.pending.get(event.requestId);
+    if (request) {
+      request.status = event.response.status;
+      request.fromCache = Boolean(
+        event.response.fromDiskCache ||
+          event.response.fromPrefetchCache ||
+          event.response.fromServiceWorker,
+      );
+    }
+  };
+  private onServedFromCache = (
+    event: Protocol.Network.RequestServedFromCacheEvent,
+  ) => {
+    const request = this.pending.get(event.requestId);
+    if (request) {
+      request.fromCache = true;
+    }
+  };
+  private onFinished = (event: Protocol.Network.LoadingFinishedEvent) => {
+    this.finish(event.requestId, event.timestamp, {
+      transferredBytes: event.encodedDataLength,
+    });
+  };
+  private onFailed = (event: Protocol.Network.LoadingFailedEvent) => {
+    this.finish(event.requestId, event.timestamp, {
+      status: 0,
+      error: event.canceled ? 'canceled' : event.errorText,
+    });
+  };
+  private onFrameSent = (event: Protocol.Network.WebSocketFrameSentEvent) => {
+    this.websocket.framesSent++;
+    this.websocket.bytesSent += frameBytes(event.response);
+  };
+  private onFrameReceived = (
+    event: Protocol.Network.WebSocketFrameReceivedEvent,
+  ) => {
+    this.websocket.framesReceived++;
+    this.websocket.bytesReceived += frameBytes(event.response);
+  };
+
+  constructor(page: Page, filename: string, baseUrl: string) {
+    this.page = page;
+    this.filename = filename;
+    this.baseOrigin = new URL(baseUrl).origin;
+    this.stream = new ResultStream(filename);
+  }
+
+  async start(): Promise<void> {
+    if (this.client) {
+      console.log('Network measurement is already running');
+      return;
+    }
+
+    this.stream = new ResultStream(this.filename);
+    this.startTime = Date.now();
+    this.pending.clear();
+    this.finished = [];
+    this.websocket = {
+      framesSent: 0,
+      framesReceived: 0,
+      bytesSent: 0,
+      bytesReceived: 0,
+    };
+
+    try {
+      this.client = await this.page.createCDPSession();
+      this.client.on('Network.requestWillBeSent', this.onRequest);
+      this.client.on('Network.responseReceived', this.onResponse);
+      this.client.on('Network.requestServedFromCache', this.onServedFromCache);
+      this.client.on('Network.loadingFinished', this.onFinished);
+      this.client.on('Network.loadingFailed', this.onFailed);
+      this.client.on('Network.webSocketFrameSent', this.onFrameSent);
+      this.client.on('Network.webSocketFrameReceived', this.onFrameReceived);
+      await this.client.send('Network.enable');
+
+      this.nodeInterval = setInterval(async () => {
+        await this.flush();
+      }, BATCH_INTERVAL);
+    } catch (err) {
+      console.error('Error starting network measurement:', err);
+      this.client = null;
+    }
+  }
+
+  /**
+   * Stops listening and saves the requests, their summary per endpoint and
+   * the resources fetched more than once
+   */
+  async stop(): Promise<NetworkRequestRecord[]> {
+    if (!this.client) {
+      console.log('No network measurement is running');
+      return [];
+    }
+
+    if (this.nodeInterval) {
+      clearInterval(this.nodeInterval);
+      this.nodeInterval = null;
+    }
+
+    try {
+      await this.client.detach();
+    } catch (err) {
+      console.error('Error stopping network measurement:', err);
+    }
+    this.client = null;
+    // Requests still in flight are left out, they have no size or duration
+    this.pending.clear();
+    await this.flush();
+
+    const requests = await this.stream.readAll();
+    requests.sort((a, b) => a.timestamp - b.timestamp);
+
+    const endpoints = summarizeEndpoints(requests);
+    const duplicates = findDuplicateFetches(requests);
+    const summary: NetworkSummary = {
+      requestCount: requests.length,
+      failedRequestCount: requests.filter((r) => r.status === 0).length,
+      transferredBytes: requests.reduce(
+        (sum, r) => sum + r.transferredBytes,
+        0,
+      ),
+      duplicateFetchCount: duplicates.reduce((sum, d) => sum + d.count - 1, 0),
+      websocketFramesSent: this.websocket.framesSent,
+      websocketFramesReceived: this.websocket.framesReceived,
+      websocketBytesSent: this.websocket.bytesSent,
+      websocketBytesReceived: this.websocket.bytesReceived,
+    };
+
+    console.log(
+      `Network: ${summary.requestCount} requests, ${summary.transferredBytes} bytes, ${summary.websocketFramesReceived} websocket frames received`,
+    );
+    if (duplicates.length > 0) {
+      console.log(
+        `${duplicates.length} resources were fetched more than once (${summary.duplicateFetchCount} extra fetches):`,
+      );
+      for (const duplicate of duplicates.slice(0, DUPLICATE_LOG_LIMIT)) {
+        console.log(
+          `  ${duplicate.count}x ${duplicate.method} ${duplicate.url}`,
+        );
+      }
+    }
+
+    recordMetrics('network', summary);
+
+    if (requests.length > 0) {
+      await this.stream.save('csv', NETWORK_REQUEST_COLUMNS, requests);
+      await createAndSaveToFiles(endpoints, `${this.filename}-endpoints`);
+    }
+    if (duplicates.length > 0) {
+      await createAndSaveToFiles(duplicates, `${this.filename}-duplicates`);
+    }
+    await saveToJson(summary, `${this.filename}-summary`);
+
+    return requests;
+  }
+
+  private finish(
+    requestId: string,
+    monotonicEnd: number,
+    result: {status?: number; transferredBytes?: number; error?: string},
+  ): void {
+    const request = this.pending.get(requestId);
+    if (!request) {
+      return;
+    }
+    this.pending.delete(requestId);
+
+    this.finished.push({
+      timestamp: request.timestamp,
+      diffTimestamp: request.timestamp - this.startTime,
+      phase: request.phase,
+      method: request.method,
+      endpoint: endpointPattern(request.url, this.baseOrigin),
+      url: request.url,
+      resourceType: request.resourceType,
+      status: result.status ?? request.status,
+      transferredBytes: result.transferredBytes ?? 0,
+      durationMs: Math.round((monotonicEnd - request.monotonicStart) * 1000),
+      fromCache: request.fromCache,
+      error: result.error ?? '',
+    });
+  }
+
+  private async flush(): Promise<void> {
+    const batch = this.finished;
+    this.finished = [];
+    try {
+      await this.stream.append(batch);
+    } catch (err) {
+      console.error('Error saving network requests:', err);
+    }
+  }
+}
+
+/**
+ * Turns a URL into the pattern of its endpoint: ids and names in the path
+ * become *, the query is dropped and only other origins are kept. The posts
+ * of every channel, /api/v4/channels/<id>/posts, share one pattern.
+ */
+export function endpointPattern(url: string, baseOrigin: string): string {
+  const {origin, pathname} = new URL(url);
+  const segments = pathname.split('/');
+  const path = segments
+    .map((segment, index) =>
+      ID_SEGMENT.test(segment) ||
+      /^\d+$/.test(segment) ||
+      NAME_KEYS.includes(segments[index - 1])
+        ? '*'
+        : segment,
+    )
+    .join('/');
+
+  return origin === baseOrigin ? path : `${origin}${path}`;
+}
+
+/**
+ * Requests, durations and bytes per method and endpoint, busiest first
+ */
+export function summarizeEndpoints(
+  requests: NetworkRequestRecord[],
+): EndpointSummary[] {
+  const groups = new Map<string, NetworkRequestRecord[]>();
+  for (const request of requests) {
+    const key = `${request.method} ${request.endpoint}`;
+    groups.set(key, [...(groups.get(key) ?? []), request]);
+  }
+
+  const round = (value: number) => parseFloat(value.toFixed(1));
+  return [...groups.values()]
+    .map((group) => {
+      const durations = group.map((r) => r.durationMs);
+      return {
+        method: group[0].method,
+        endpoint: group[0].endpoint,
+        count: group.length,
+        errorCount: group.filter((r) => r.status === 0 || r.status >= 400)
+          .length,
+        transferredBytes: group.reduce((sum, r) => sum + r.transferredBytes, 0),
+        meanDurationMs: round(mean(durations)),
+        p90DurationMs: round(percentile(durations, 90)),
+        maxDurationMs: Math.max(...durations),
+      };
+    })
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Resources a scenario fetched over the network more than once: the same
+ * method and URL, query included, without answers from the cache
+ */
+export function findDuplicateFetches(
+  requests: NetworkRequestRecord[],
+): DuplicateFetch[] {
+  const fetches = new Map<string, NetworkRequestRecord[]>();
+  for (const request of requests) {
+    if (request.fromCache || request.status === 0) {
+      continue;
+    }
+    const key = `${request.method} ${request.url}`;
+    fetches.set(key, [...(fetches.get(key) ?? []), request]);
+  }
+
+  return [...fetches.values()]
+    .filter((group) => group.length > 1)
+    .map((group) => ({
+      method: group[0].method,
+      url: group[0].url,
+      count: group.length,
+      phases: [...new Set(group.map((r) => r.phase))].join(' | '),
+    }))
+    .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Size of a websocket frame's payload, binary frames come base64 encoded
+ */
+function frameBytes(frame: Protocol.Network.WebSocketFrame): number {
+  return frame.opcode === 1
+    ? Buffer.byteLength(frame.payloadData, 'utf8')
+    : Buffer.from(frame.payloadData, 'base64').length;
+}
@@ -0,0 +1,257 @@
+import {CDPSession, Page, Protocol} from 'puppeteer';
+
+export type CacheMode = 'cold' | 'warm';
+
+export const CACHE_MODES: CacheMode[] = ['cold', 'warm'];
+
+// Give up waiting for the sidebar and post list after this long
+const READY_TIMEOUT_MS = 30000;
+
+// A load counts as finished once no request was made for this long
+const LOAD_IDLE_MS = 1000;
+
+// Time given to the page to report its buffered LCP entries
+const LCP_TIMEOUT_MS = 100;
+
+// Every time is in ms from the start of the navigation
+export interface PageLoadTiming {
+  timeToFirstByte: number;
+  domInteractive: number;
+  domContentLoaded: number; // End of the DOMContentLoaded handlers
+  loadEvent: number; // End of the load handlers
+  firstContentfulPaint?: number;
+  largestContentfulPaint?: number;
+  sidebarInteractive?: number; // Sidebar rendered and main thread free again
+  postListInteractive?: number; // First post rendered and main thread free again
+  requestCount: number;
+  transferredBytes: number; // Received over the network, headers included
+  jsTransferredBytes: number;
+  jsDecodedBytes: number; // Script bodies once decompressed
+}
+
+export const PAGE_LOAD_METRICS: Array<keyof PageLoadTiming> = [
+  'timeToFirstByte',
+  'domInteractive',
+  'domContentLoaded',
+  'loadEvent',
+  'firstContentfulPaint',
+  'largestContentfulPaint',
+  'sidebarInteractive',
+  'postListInteractive',
+  'requestCount',
+  'transferredBytes',
+  'jsTransferredBytes',
+  'jsDecodedBytes',
+];
+
+// Elements whose readiness is timed, as CSS selectors
+export interface PageLoadSelectors {
+  sidebar: string;
+  postList: string;
+}
+
+declare global {
+  interface Window {
+    __pageLoadMarks?: {sidebar?: number; postList?: number};
+  }
+}
+
+/**
+ * Class that times loads of the webapp. Network events count the bytes
+ * received, resource timing the size of scripts served from the cache, and a
+ * script run before the webapp's own marks when the sidebar and post list
+ * become usable.
+ */
+export class PageLoadMeasurer {
+  private page: Page;
+  private selectors: PageLoadSelectors;
+  private client: CDPSession | null = null;
+  private scriptIdentifier: string | null = null;
+  // Scripts of the current load by request id, with the bytes decoded so far
+  private scriptRequests = new Map<string, {url: string; decoded: number}>();
+  private counters = {requests: 0, bytes: 0, jsBytes: 0};
+
+  private onResponse = (event: Protocol.Network.ResponseReceivedEvent) => {
+    if (event.type === 'Script') {
+      this.scriptRequests.set(event.requestId, {
+        url: event.response.url,
+        decoded: 0,
+      });
+    }
+  };
+  private onLoadingFinished = (
+    event: Protocol.Network.LoadingFinishedEvent,
+  ) => {
+    this.counters.requests++;
+    this.counters.bytes += event.encodedDataLength;
+    if (this.scriptRequests.has(event.requestId)) {
+      this.counters.jsBytes += event.encodedDataLength;
+    }
+  };
+  private onDataReceived = (event: Protocol.Network.DataReceivedEvent) => {
+    const script = this.scriptRequests.get(event.requestId);
+    if (script) {
+      script.decoded += event.dataLength;
+    }
+  };
+
+  constructor(page: Page, selectors: PageLoadSelectors) {
+    this.page = page;
+    this.selectors = selectors;
+  }
+
+  async start(): Promise<void> {
+    if (this.client) {
+      console.log('Page load measurement is already running');
+      return;
+    }
+
+    this.client = await this.page.createCDPSession();
+    this.client.on('Network.responseReceived', this.onResponse);
+    this.client.on('Network.loadingFinished', this.onLoadingFinished);
+    this.client.on('Network.dataReceived', this.onDataReceived);
+    await this.client.send('Network.enable');
+
+    const {identifier} = await this.page.evaluateOnNewDocument((selectors) => {
+      const marks: {sidebar?: number; postList?: number} = {};
+      window.__pageLoadMarks = marks;
+
+      const markWhenUsable = (
+        key: 'sidebar' | 'postList',
+        selector: string,
+      ) => {
+        const check = () => {
+          if (!document.querySelector(selector)) return false;
+          // Rendered once the next frame is painted, usable once the main
+          // thread gets to the task queued after it
+          requestAnimationFrame(() =>
+            setTimeout(() => (marks[key] = performance.now())),
+          );
+          return true;
+        };
+        if (check()) return;
+        const observer = new MutationObserver(() => {
+          if (check()) observer.disconnect();
+        });
+        observer.observe(document, {childList: true, subtree: true});
+      };
+
+      markWhenUsable('sidebar', selectors.sidebar);
+      markWhenUsable('postList', selectors.postList);
+    }, this.selectors);
+    this.scriptIdentifier = identifier;
+  }
+
+  /**
+   * Loads a URL and times it. A cold load clears the HTTP cache first, a
+   * warm one uses what earlier loads left in it.
+   */
+  async measure(url: string, cacheMode: CacheMode): Promise<PageLoadTiming> {
+    if (!this.client) {
+      throw new Error('Page load measurement is not running');
+    }
+
+    if (cacheMode === 'cold') {
+      await this.client.send('Network.clearBrowserCache');
+    }
+    this.scriptRequests.clear();
+    this.counters = {requests: 0, bytes: 0, jsBytes: 0};
+
+    await this.page.goto(url, {waitUntil: 'load'});
+    try {
+      await this.page.waitForFunction(
+        () =>
+          window.__pageLoadMarks?.sidebar !== undefined &&
+          window.__pageLoadMarks?.postList !== undefined,
+        {timeout: READY_TIMEOUT_MS},
+      );
+    } catch (err) {
+      console.error('Sidebar or post list did not become usable:', err);
+    }
+    await this.page.waitForNetworkIdle({idleTime: LOAD_IDLE_MS});
+
+    const timing = await this.page.evaluate(async (lcpTimeout) => {
+      const [navigation] = performance.getEntriesByType(
+        'navigation',
+      ) as PerformanceNavigationTiming[];
+      const fcp = performance.getEntriesByName('first-contentful-paint')[0];
+
+      // LCP entries are only handed out through an observer
+      const lcp = await new Promise<number | undefined>((resolve) => {
+        new PerformanceObserver((list) => {
+          const entries = list.getEntries();
+          resolve(entries[entries.length - 1]?.startTime);
+        }).observe({type: 'largest-contentful-paint', buffered: true});
+        setTimeout(() => resolve(undefined), lcpTimeout);
+      });
+
+      return {
+        timeToFirstByte: navigation.responseStart,
+        domInteractive: navigation.domInteractive,
+        domContentLoaded: navigation.domContentLoadedEventEnd,
+        loadEvent: navigation.loadEventEnd,
+        firstContentfulPaint: fcp?.startTime,
+        largestContentfulPaint: lcp,
+        sidebarInteractive: window.__pageLoadMarks?.sidebar,
+        postListInteractive: window.__pageLoadMarks?.postList,
+        // Decoded size of every resource, including those the cache served
+        decodedSizes: Object.fromEntries(
+          (
+            performance.getEntriesByType(
+              'resource',
+            ) as PerformanceResourceTiming[]
+          ).map((entry) => [entry.name, entry.decodedBodySize]),
+        ),
+      };
+    }, LCP_TIMEOUT_MS);
+
+    // Scripts served from the cache may get no data events, their size
+    // comes from resource timing instead
+    let jsDecodedBytes = 0;
+    for (const script of this.scriptRequests.values()) {
+      jsDecodedBytes +=
+        script.decoded > 0
+          ? script.decoded
+          : (timing.decodedSizes[script.url] ?? 0);
+    }
+
+    const round = (value?: number) =>
+      value === undefined ? undefined : Math.round(value);
+
+    return {
+      timeToFirstByte: Math.round(timing.timeToFirstByte),
+      domInteractive: Math.round(timing.domInteractive),
+      domContentLoaded: Math.round(timing.domContentLoaded),
+      loadEvent: Math.round(timing.loadEvent),
+      firstContentfulPaint: round(timing.firstContentfulPaint),
+      largestContentfulPaint: round(timing.largestContentfulPaint),
+      sidebarInteractive: round(timing.sidebarInteractive),
+      postListInteractive: round(timing.postListInteractive),
+      requestCount: this.counters.requests,
+      transferredBytes: this.counters.bytes,
+      jsTransferredBytes: this.counters.jsBytes,
+      jsDecodedBytes,
+    };
+  }
+
+  async stop(): Promise<void> {
+    if (!this.client) {
+      console.log('No page load measurement is running');
+      return;
+    }
+
+    try {
+      if (this.scriptIdentifier) {
+        await this.page.removeScriptToEvaluateOnNewDocument(
+          this.scriptIdentifier,
+        );
+      }
+      await this.client.detach();
+    } catch (err) {
+      console.error('Error stopping page load measurement:', err);
+    }
+
+    this.client = null;
+    this.scriptIdentifier = null;
+  }
+}
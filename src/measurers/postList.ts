@@ -0,0 +1,64 @@
+import {HTTPRequest, Page} from 'puppeteer';
+
+// Virtualized list holding the posts of the current channel
+export const POST_LIST_SELECTOR = '.post-list__dynamic';
+
+// Older posts are fetched with a "before" cursor when scrolling up
+const LOAD_MORE_URL_PATTERN = /\/api\/v4\/channels\/[^/]+\/posts\?.*\bbefore=/;
+
+export interface PostListSize {
+  postNodeCount: number; // Post elements currently rendered in the list
+  listNodeCount: number; // All elements currently rendered in the list
+}
+
+/**
+ * Counts the DOM nodes rendered inside the post list
+ */
+export async function measurePostListSize(page: Page): Promise<PostListSize> {
+  return page.evaluate((selector) => {
+    const container = document.querySelector(selector);
+    if (!container) {
+      return {postNodeCount: 0, listNodeCount: 0};
+    }
+
+    return {
+      postNodeCount: container.querySelectorAll('.post').length,
+      listNodeCount: container.getElementsByTagName('*').length,
+    };
+  }, POST_LIST_SELECTOR);
+}
+
+/**
+ * Class that watches for "load more" requests fetching older posts
+ */
+export class LoadMoreWatcher {
+  private page: Page;
+  private requestCount: number = 0;
+  private listener = (request: HTTPRequest) => {
+    if (LOAD_MORE_URL_PATTERN.test(request.url())) {
+      this.requestCount++;
+    }
+  };
+
+  constructor(page: Page) {
+    this.page = page;
+  }
+
+  start(): void {
+    this.requestCount = 0;
+    this.page.on('request', this.listener);
+  }
+
+  /**
+   * Returns whether a load more request fired since the last call
+   */
+  takeFired(): boolean {
+    const fired = this.requestCount > 0;
+    this.requestCount = 0;
+    return fired;
+  }
+
+  stop(): void {
+    this.page.off('request', this.listener);
+  }
+}
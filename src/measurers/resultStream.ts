@@ -0,0 +1,123 @@
+import * as fs from 'fs/promises';
+import {
+  createAndSaveToFiles,
+  createFilePath,
+  ensureResultsDirectory,
+} from './toFile';
+
+export const STREAM_EXTENSION = '.ndjson';
+
+/**
+ * Class that appends samples to an NDJSON file while a measurement runs,
+ * so a crash loses at most the sample being written. The CSV or JSON file
+ * is produced from the stream at the end, and the stream is then removed.
+ * Streams left behind by a crash are turned into results by `recover`.
+ */
+export class ResultStream<T extends Record<string, any>> {
+  private filename: string;
+  private outputFile: string;
+  private writeChain: Promise<unknown> = Promise.resolve();
+  private created = false;
+
+  /**
+   * @param filename Filename of the final result, without extension
+   */
+  constructor(filename: string) {
+    this.filename = filename;
+    this.outputFile = createFilePath(filename, STREAM_EXTENSION);
+  }
+
+  /**
+   * Appends samples to the stream. Writes are queued in order, callers
+   * polling on a timer do not have to await them.
+   */
+  append(rows: T[]): Promise<void> {
+    if (rows.length === 0) {
+      return this.writeChain.then(() => undefined);
+    }
+
+    const lines = rows.map((row) => `${JSON.stringify(row)}\n`).join('');
+    const write = this.writeChain.then(async () => {
+      if (!this.created) {
+        await ensureResultsDirectory();
+        this.created = true;
+      }
+      await fs.appendFile(this.outputFile, lines);
+    });
+
+    // A failed write must not block the following ones
+    this.writeChain = write.catch((err) => {
+      console.error(`Error appending to ${this.outputFile}:`, err);
+    });
+    return this.writeChain.then(() => undefined);
+  }
+
+  /**
+   * Reads back every sample written so far
+   */
+  async readAll(): Promise<T[]> {
+    await this.writeChain;
+    if (!this.created) {
+      return [];
+    }
+    return readStream<T>(this.outputFile);
+  }
+
+  /**
+   * Saves the final file and removes the stream once it is written.
+   *
+   * @param rows Rows to save instead of the streamed samples, for results
+   * that are reshaped at the end
+   */
+  async save(
+    format: 'json' | 'csv' = 'csv',
+    columns: ReadonlyArray<keyof T & string> = [],
+    rows?: T[],
+  ): Promise<T[]> {
+    const data = rows ?? (await this.readAll());
+    const saved = await createAndSaveToFiles(
+      data,
+      this.filename,
+      format,
+      columns,
+    );
+
+    // Keep the stream for `recover` when the result could not be written
+    if (saved) {
+      await this.remove();
+    }
+    return data;
+  }
+
+  private async remove(): Promise<void> {
+    await this.writeChain;
+    if (!this.created) {
+      return;
+    }
+    try {
+      await fs.unlink(this.outputFile);
+    } catch (err) {
+      console.error(`Error removing ${this.outputFile}:`, err);
+    }
+  }
+}
+
+/**
+ * Reads the samples of an NDJSON stream. A line cut short by a crash is
+ * skipped, everything before it is kept.
+ */
+export async function readStream<T>(filePath: string): Promise<T[]> {
+  const content = await fs.readFile(filePath, 'utf8');
+  const rows: T[] = [];
+
+  for (const line of content.split('\n')) {
+    if (line.trim() === '') continue;
+    try {
+      rows.push(JSON.parse(line));
+    } catch {
+      console.warn(`Skipping incomplete line in ${filePath}`);
+    }
+  }
+
+  return rows;
+}
@@ -2,35 +2,76 @@ import * as fs from 'fs/promises';
 import * as path from 'path';
 import {format} from 'date-fns';
 
-// Default results directory
-const DEFAULT_RESULTS_DIR = './results';
+// Default results directory, holding one directory per run
+export const RESULTS_DIRECTORY = './results';
+
+// Directory files are written to, a run directory once a run started
+let resultsDirectory = RESULTS_DIRECTORY;
+
+// Files written since the last call to takeArtifacts
+let artifacts: string[] = [];
 
 /**
- * Formats a date as DD-MM-YY-HH:MM:SS
- * Used for filenames and timestamps
+ * Formats a date as YYYY-MM-DDTHH-MM-SS
+ * Used for filenames and timestamps, without characters file systems reject
  */
 export function formatTimestamp(date: Date = new Date()): string {
-  return format(date, 'dd-MM-yy::HH:mm:ss');
+  return format(date, "yyyy-MM-dd'T'HH-mm-ss");
+}
+
+/**
+ * Creates the directory of a run inside the results directory and writes
+ * all following files there. Returns the path of the run directory.
+ */
+export async function createRunDirectory(runId: string): Promise<string> {
+  resultsDirectory = path.join(RESULTS_DIRECTORY, runId);
+  return ensureResultsDirectory();
+}
+
+/**
+ * Writes all following files to the directory of an existing run
+ */
+export function openRunDirectory(directory: string): void {
+  resultsDirectory = directory;
+}
+
+/**
+ * Records a file written to the results directory
+ */
+export function recordArtifact(filePath: string): void {
+  artifacts.push(path.relative(resultsDirectory, filePath));
+}
+
+/**
+ * Returns the files written since the last call, relative to the results directory
+ */
+export function takeArtifacts(): string[] {
+  const taken = artifacts;
+  artifacts = [];
+  return taken;
 }
 
 /**
  * Creates a full file path from a results directory and filename
  */
-function createFilePath(filename: string, extension: string = ''): string {
+export function createFilePath(
+  filename: string,
+  extension: string = '',
+): string {
   // Add extension if provided and not already in filename
   const fullFilename =
     extension && !filename.endsWith(extension)
       ? `${filename}${extension}`
       : filename;
 
-  return path.join(DEFAULT_RESULTS_DIR, fullFilename);
+  return path.join(resultsDirectory, fullFilename);
 }
 
 /**
  * Ensure results directory exists
  */
-async function ensureResultsDirectory(): Promise<string> {
-  const resultsDir = path.join(process.cwd(), 'results');
+export async function ensureResultsDirectory(): Promise<string> {
+  const resultsDir = path.resolve(resultsDirectory);
   try {
     await fs.mkdir(resultsDir, {recursive: true});
     return resultsDir;
@@ -44,7 +85,10 @@ async function ensureResultsDirectory(): Promise<string> {
  * Save data to JSON file
  * Creates the directory if it doesn't exist
  */
-async function saveToJson<T>(data: T, filename: string): Promise<string> {
+export async function saveToJson<T>(
+  data: T,
+  filename: string,
+): Promise<string> {
   // Create the full JSON file path
   const outputFile = createFilePath(filename, '.json');
 
@@ -66,34 +110,27 @@ async function saveToJson<T>(data: T, filename: string): Promise<string> {
 
   try {
     await fs.writeFile(outputFile, jsonString);
+    recordArtifact(outputFile);
     return outputFile;
   } catch (error) {
     console.error(`Error writing to ${outputFile}:`, error);
-
-    // Create a backup with timestamp in case of file system issues
-    const backupFile = `${outputFile}.backup-${Date.now()}.json`;
-    try {
-      await fs.writeFile(backupFile, jsonString);
-      console.log(`Backup JSON saved to ${backupFile}`);
-    } catch (backupError) {
-      console.error(`Failed to save backup JSON:`, backupError);
-    }
-
     throw error;
   }
 }
 
 /**
  * Simple function to save array data to CSV file
- * Takes an array of objects and converts them to CSV format
+ * Takes an array of objects and converts them to RFC 4180 CSV
  *
- * @param data Array of objects with the same structure
+ * @param data Array of objects, rows may have different keys
  * @param filename Filename without path (e.g., "memory_test")
+ * @param columns Columns written first and in this order, see csvColumns
  * @param silent Whether to suppress log messages
  */
 async function saveToCsv<T extends Record<string, any>>(
   data: T[],
   filename: string,
+  columns: readonly string[] = [],
   silent: boolean = false,
 ): Promise<string> {
   const outputFile = createFilePath(filename, '.csv');
@@ -109,11 +146,12 @@ async function saveToCsv<T extends Record<string, any>>(
     // Create an empty file with a warning
     const errorMsg = `# WARNING: No data was available to save at ${new Date().toISOString()}\n`;
     await fs.writeFile(outputFile, errorMsg);
+    recordArtifact(outputFile);
     return outputFile;
   }
 
-  // Get headers from the first item
-  const csvHeaders = Object.keys(data[0]);
+  // Get headers from every item, a key may first appear on a later row
+  const csvHeaders = csvColumns(data, columns);
   if (csvHeaders.length === 0) {
     console.error('Invalid data structure: empty object in data array');
     throw new Error('Invalid data structure: empty object in data array');
@@ -121,73 +159,160 @@ async function saveToCsv<T extends Record<string, any>>(
 
   try {
     // Create header row
-    const headerRow = csvHeaders.join(',');
+    const headerRow = csvHeaders.map(formatCsvField).join(',');
 
-    // Create data rows
+    // Create data rows, a missing key is an empty field
     const dataRows = data.map((item) =>
-      csvHeaders
-        .map((header) => {
-          const value = item[header];
-          // Wrap strings in quotes, handle undefined
-          return typeof value === 'string' ? `"${value}"` : (value ?? '');
-        })
-        .join(','),
+      csvHeaders.map((header) => formatCsvField(item[header])).join(','),
     );
 
-    // Combine headers and data
-    const csvContent = [headerRow, ...dataRows].join('\n');
+    // Combine headers and data, RFC 4180 ends every record with CRLF
+    const csvContent = [headerRow, ...dataRows]
+      .map((row) => `${row}\r\n`)
+      .join('');
 
     // Write to file
     await fs.writeFile(outputFile, csvContent);
+    recordArtifact(outputFile);
 
     return outputFile;
   } catch (error) {
     console.error(`Error writing CSV to ${outputFile}:`, error);
+    throw error;
+  }
+}
 
-    // Create an emergency JSON backup
-    const backupFile = `${outputFile.replace('.csv', '')}.emergency-${Date.now()}.json`;
-    try {
-      await fs.writeFile(backupFile, JSON.stringify(data, null, 2));
-      console.log(`Emergency JSON backup saved to ${backupFile}`);
-    } catch (backupError) {
-      console.error(`Failed to save emergency backup:`, backupError);
+/**
+ * Columns of a CSV: the given columns first, then every other key in the
+ * order it first appears in the rows
+ */
+export function csvColumns(
+  data: Array<Record<string, any>>,
+  columns: readonly string[] = [],
+): string[] {
+  const headers = new Set(columns);
+  for (const item of data) {
+    for (const key of Object.keys(item)) {
+      headers.add(key);
     }
+  }
+  return Array.from(headers);
+}
 
-    throw error;
+/**
+ * Formats a value as a CSV field, quoting it when it holds a comma, a quote
+ * or a line break and doubling embedded quotes
+ */
+export function formatCsvField(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
   }
+
+  const text =
+    typeof value === 'object' ? JSON.stringify(value) : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
 }
 
+/**
+ * Saves rows to the results directory as CSV (default) or JSON.
+ * Errors are logged, not thrown; data that is streamed while measuring
+ * stays recoverable from its stream (see ResultStream).
+ * Returns the path of the written file, undefined when writing failed.
+ *
+ * @param columns CSV columns written first and in this order, other keys follow
+ */
 export async function createAndSaveToFiles<T extends Record<string, any>>(
   data: T[],
   filename: string,
   format: 'json' | 'csv' = 'csv',
-) {
+  columns: ReadonlyArray<keyof T & string> = [],
+): Promise<string | undefined> {
   try {
     if (!data || data.length === 0) {
       console.warn(`Warning: Empty or null data when saving ${filename}`);
     }
 
     if (format === 'json') {
-      await saveToJson(data, filename);
-    } else if (format === 'csv') {
-      await saveToCsv(data, filename);
+      return await saveToJson(data, filename);
     }
+    return await saveToCsv(data, filename, columns);
   } catch (error) {
     console.error('Error saving data to files:', error);
+    return undefined;
+  }
+}
 
-    // Last resort emergency save
-    try {
-      const emergencyFile = path.join(
-        process.cwd(),
-        'results',
-        `emergency-${filename}-${Date.now()}.json`,
-      );
-      await fs.writeFile(emergencyFile, JSON.stringify(data || [], null, 2));
-      console.log(`Emergency data saved to ${emergencyFile}`);
-    } catch (emergencyError) {
-      console.error('CRITICAL: Even emergency save failed:', emergencyError);
+/**
+ * Reads a CSV file written by createAndSaveToFiles back into rows.
+ * Values stay strings, files holding only a warning comment have no rows.
+ */
+export async function loadFromCsv(
+  filePath: string,
+): Promise<Array<Record<string, string>>> {
+  const content = await fs.readFile(filePath, 'utf8');
+  if (content.startsWith('#')) {
+    return [];
+  }
+
+  const [headers, ...records] = parseCsv(content);
+  if (!headers) {
+    return [];
+  }
+
+  return records.map((values) =>
+    Object.fromEntries(
+      headers.map((header, index) => [header, values[index] ?? '']),
+    ),
+  );
+}
+
+/**
+ * Parses RFC 4180 CSV into records of fields. Quoted fields may hold
+ * commas, doubled quotes and line breaks, records end with CRLF or LF.
+ */
+export function parseCsv(content: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRecord = () => {
+    record.push(field);
+    // A blank line is not a record with one empty field
+    if (record.length > 1 || record[0] !== '') {
+      records.push(record);
+    }
+    record = [];
+    field = '';
+  };
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n') {
+      endRecord();
+    } else if (char !== '\r' || content[i + 1] !== '\n') {
+      field += char;
     }
   }
+  if (field !== '' || record.length > 0) {
+    endRecord();
+  }
+
+  return records;
 }
 
 /**
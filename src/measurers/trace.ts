@@ -0,0 +1,97 @@
+import {Page} from 'puppeteer';
+import {createFilePath, ensureResultsDirectory, recordArtifact} from './toFile';
+
+// Same set as a DevTools Performance panel recording, with screenshots and V8 sampling
+const TRACE_CATEGORIES = [
+  '-*',
+  'devtools.timeline',
+  'disabled-by-default-devtools.timeline',
+  'disabled-by-default-devtools.timeline.frame',
+  'disabled-by-default-devtools.timeline.stack',
+  'disabled-by-default-devtools.screenshot',
+  'disabled-by-default-v8.cpu_profiler',
+  'v8.execute',
+  'toplevel',
+  'blink.console',
+  'blink.user_timing',
+  'latencyInfo',
+  'loading',
+];
+
+// Phase each page was last marked with, network requests are attributed to it
+const currentPhases = new WeakMap<Page, string>();
+
+/**
+ * Adds a mark to the page's performance timeline, so the phases of a
+ * scenario show up in the Timings track of a trace
+ */
+export async function markPhase(page: Page, name: string): Promise<void> {
+  currentPhases.set(page, name);
+  try {
+    await page.evaluate((markName) => {
+      performance.mark(markName);
+    }, name);
+  } catch (err) {
+    console.error(`Error marking phase ${name}:`, err);
+  }
+}
+
+/**
+ * The phase a page was last marked with, empty before its first mark
+ */
+export function currentPhase(page: Page): string {
+  return currentPhases.get(page) ?? '';
+}
+
+/**
+ * Class that records a Chrome performance trace, loadable in the
+ * DevTools Performance panel and in Perfetto
+ */
+export class TraceRecorder {
+  private page: Page;
+  private filename: string;
+  private isRunning: boolean = false;
+  private outputFile: string = '';
+
+  constructor(page: Page, filename: string) {
+    this.page = page;
+    this.filename = filename;
+  }
+
+  async start(): Promise<void> {
+    if (this.isRunning) {
+      console.log('Trace recording is already running');
+      return;
+    }
+
+    await ensureResultsDirectory();
+    this.outputFile = createFilePath(this.filename, '.json');
+
+    await this.page.tracing.start({
+      path: this.outputFile,
+      screenshots: true,
+      categories: TRACE_CATEGORIES,
+    });
+    this.isRunning = true;
+
+    console.log('Started trace recording...');
+  }
+
+  /**
+   * Stops recording and writes the trace, returns the path of the file
+   */
+  async stop(): Promise<string | undefined> {
+    if (!this.isRunning) {
+      console.log('No trace recording is running');
+      return undefined;
+    }
+
+    this.isRunning = false;
+    await this.page.tracing.stop();
+    recordArtifact(this.outputFile);
+
+    console.log(`Trace saved to ${this.outputFile}`);
+
+    return this.outputFile;
+  }
+}
@@ -0,0 +1,346 @@
+// Charts are plain SVG strings, so a report works offline without any library
+
+const CHART_WIDTH = 900;
+const CHART_HEIGHT = 280;
+const MARGIN = {top: 30, right: 70, bottom: 40, left: 70};
+
+// Line colors, cycled when a chart has more series
+const SERIES_COLORS = [
+  '#1c58d9',
+  '#d24b4e',
+  '#3db887',
+  '#ffbc1f',
+  '#8b46c7',
+  '#22a1c4',
+];
+const OVERLAY_COLOR = '#7a7a7a';
+const ANNOTATION_COLORS = {channel: '#c77c00', gc: '#3db887'};
+
+// Points get a hover tooltip only up to this many, larger series stay lines
+const MAX_POINTS_WITH_TOOLTIPS = 600;
+
+// Annotations are labelled in the chart only up to this many, all have tooltips
+const MAX_LABELLED_ANNOTATIONS = 12;
+
+export interface Series {
+  label: string;
+  points: Array<[number, number]>;
+}
+
+export interface Annotation {
+  x: number;
+  label: string;
+  kind: 'channel' | 'gc';
+}
+
+export interface LineChartOptions {
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  series: Series[];
+  // Drawn dashed against its own axis on the right, e.g. the scroll position
+  overlay?: Series & {yLabel: string};
+  annotations?: Annotation[];
+}
+
+export interface Bar {
+  label: string;
+  value: number;
+  innerValue?: number; // Drawn inside the bar, e.g. time to first post
+}
+
+export interface BarChartOptions {
+  title: string;
+  unit: string;
+  valueLabel: string;
+  innerValueLabel?: string;
+  bars: Bar[];
+}
+
+/**
+ * Line chart of one or more series sharing the x axis, with phase
+ * boundaries drawn as vertical lines
+ */
+export function lineChart(options: LineChartOptions): string {
+  const {series, overlay, annotations = []} = options;
+  const allPoints = series.flatMap((s) => s.points);
+  if (allPoints.length === 0) {
+    return '';
+  }
+
+  const plotWidth = CHART_WIDTH - MARGIN.left - MARGIN.right;
+  const plotHeight = CHART_HEIGHT - MARGIN.top - MARGIN.bottom;
+
+  const xs = [...allPoints, ...(overlay?.points ?? [])].map(([x]) => x);
+  const xScale = linearScale(minOf(xs), maxOf(xs), 0, plotWidth);
+  const yTicks = niceTicks(0, maxOf(allPoints.map(([, y]) => y)));
+  const yScale = linearScale(
+    yTicks[0],
+    yTicks[yTicks.length - 1],
+    plotHeight,
+    0,
+  );
+
+  const parts: string[] = [];
+  parts.push(axes(xScale, yScale, yTicks, plotWidth, plotHeight, options));
+
+  annotations.forEach((annotation, index) => {
+    const x = xScale.map(annotation.x);
+    const color = ANNOTATION_COLORS[annotation.kind];
+    const dash = annotation.kind === 'gc' ? '2,3' : '6,3';
+    parts.push(
+      `<line x1="${x}" y1="0" x2="${x}" y2="${plotHeight}" stroke="${color}" stroke-dasharray="${dash}"><title>${escapeHtml(annotation.label)} at ${round(annotation.x)}s</title></line>`,
+    );
+    if (annotations.length <= MAX_LABELLED_ANNOTATIONS) {
+      parts.push(
+        `<text x="${x + 3}" y="${10 + (index % 3) * 11}" class="annotation" fill="${color}">${escapeHtml(annotation.label)}</text>`,
+      );
+    }
+  });
+
+  if (overlay && overlay.points.length > 0) {
+    const overlayTicks = niceTicks(0, maxOf(overlay.points.map(([, y]) => y)));
+    const overlayScale = linearScale(
+      overlayTicks[0],
+      overlayTicks[overlayTicks.length - 1],
+      plotHeight,
+      0,
+    );
+    parts.push(
+      `<polyline points="${polylinePoints(overlay.points, xScale, overlayScale)}" fill="none" stroke="${OVERLAY_COLOR}" stroke-dasharray="4,3"/>`,
+    );
+    for (const tick of overlayTicks) {
+      parts.push(
+        `<text x="${plotWidth + 6}" y="${overlayScale.map(tick) + 4}" class="tick">${formatTick(tick)}</text>`,
+      );
+    }
+    parts.push(
+      `<text transform="translate(${plotWidth + 55},${plotHeight / 2}) rotate(90)" text-anchor="middle" class="axis-label">${escapeHtml(overlay.yLabel)}</text>`,
+    );
+  }
+
+  series.forEach((s, index) => {
+    const color = SERIES_COLORS[index % SERIES_COLORS.length];
+    parts.push(
+      `<polyline points="${polylinePoints(s.points, xScale, yScale)}" fill="none" stroke="${color}" stroke-width="1.5"/>`,
+    );
+    if (s.points.length <= MAX_POINTS_WITH_TOOLTIPS) {
+      for (const [x, y] of s.points) {
+        parts.push(
+          `<circle cx="${xScale.map(x)}" cy="${yScale.map(y)}" r="2.5" fill="${color}"><title>${escapeHtml(s.label)}: ${round(y)} at ${round(x)}s</title></circle>`,
+        );
+      }
+    }
+  });
+
+  const legend = [
+    ...series.map((s, index) => ({
+      label: s.label,
+      color: SERIES_COLORS[index % SERIES_COLORS.length],
+    })),
+    ...(overlay ? [{label: overlay.label, color: OVERLAY_COLOR}] : []),
+  ];
+
+  return svg(
+    options.title,
+    CHART_HEIGHT,
+    `<g transform="translate(${MARGIN.left},${MARGIN.top})">${parts.join('')}</g>`,
+    legend,
+  );
+}
+
+/**
+ * Horizontal bar chart, one bar per label
+ */
+export function barChart(options: BarChartOptions): string {
+  const {bars} = options;
+  if (bars.length === 0) {
+    return '';
+  }
+
+  const barHeight = 18;
+  const labelWidth = 220;
+  const height = MARGIN.top + MARGIN.bottom + bars.length * (barHeight + 6);
+  const plotWidth = CHART_WIDTH - labelWidth - MARGIN.right;
+  const ticks = niceTicks(0, maxOf(bars.map((bar) => bar.value)));
+  const xScale = linearScale(0, ticks[ticks.length - 1], 0, plotWidth);
+
+  const parts: string[] = [];
+  for (const tick of ticks) {
+    const x = xScale.map(tick);
+    parts.push(
+      `<line x1="${x}" y1="0" x2="${x}" y2="${bars.length * (barHeight + 6)}" class="grid"/>`,
+      `<text x="${x}" y="${bars.length * (barHeight + 6) + 14}" text-anchor="middle" class="tick">${formatTick(tick)}</text>`,
+    );
+  }
+
+  bars.forEach((bar, index) => {
+    const y = index * (barHeight + 6);
+    const tooltip = [
+      `${bar.label}: ${options.valueLabel} ${round(bar.value)}${options.unit}`,
+      bar.innerValue !== undefined && options.innerValueLabel
+        ? `${options.innerValueLabel} ${round(bar.innerValue)}${options.unit}`
+        : '',
+    ]
+      .filter(Boolean)
+      .join(', ');
+
+    parts.push(
+      `<text x="-8" y="${y + barHeight - 5}" text-anchor="end" class="tick">${escapeHtml(truncate(bar.label, 32))}</text>`,
+      `<rect x="0" y="${y}" width="${xScale.map(bar.value)}" height="${barHeight}" fill="${SERIES_COLORS[0]}" opacity="0.45"><title>${escapeHtml(tooltip)}</title></rect>`,
+    );
+    if (bar.innerValue !== undefined) {
+      parts.push(
+        `<rect x="0" y="${y + 4}" width="${xScale.map(bar.innerValue)}" height="${barHeight - 8}" fill="${SERIES_COLORS[0]}"><title>${escapeHtml(tooltip)}</title></rect>`,
+      );
+    }
+  });
+
+  const legend = [
+    {label: options.valueLabel, color: SERIES_COLORS[0], opacity: 0.45},
+    ...(options.innerValueLabel
+      ? [{label: options.innerValueLabel, color: SERIES_COLORS[0]}]
+      : []),
+  ];
+
+  return svg(
+    options.title,
+    height,
+    `<g transform="translate(${labelWidth},${MARGIN.top})">${parts.join('')}</g>`,
+    legend,
+  );
+}
+
+interface Scale {
+  map(value: number): number;
+}
+
+function linearScale(
+  domainMin: number,
+  domainMax: number,
+  rangeMin: number,
+  rangeMax: number,
+): Scale {
+  const span = domainMax - domainMin || 1;
+  return {
+    map: (value) =>
+      round(rangeMin + ((value - domainMin) / span) * (rangeMax - rangeMin)),
+  };
+}
+
+/**
+ * Evenly spaced round tick values covering min to max
+ */
+function niceTicks(min: number, max: number, count: number = 5): number[] {
+  if (max <= min) {
+    return [min, min + 1];
+  }
+  const rawStep = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rawStep));
+  const step =
+    [1, 2, 2.5, 5, 10].map((m) => m * magnitude).find((s) => s >= rawStep) ??
+    10 * magnitude;
+
+  const ticks: number[] = [];
+  for (
+    let tick = Math.floor(min / step) * step;
+    tick < max + step;
+    tick += step
+  ) {
+    ticks.push(round(tick));
+    if (tick >= max) break;
+  }
+  return ticks;
+}
+
+function axes(
+  xScale: Scale,
+  yScale: Scale,
+  yTicks: number[],
+  plotWidth: number,
+  plotHeight: number,
+  options: LineChartOptions,
+): string {
+  const parts: string[] = [];
+  for (const tick of yTicks) {
+    const y = yScale.map(tick);
+    parts.push(
+      `<line x1="0" y1="${y}" x2="${plotWidth}" y2="${y}" class="grid"/>`,
+      `<text x="-6" y="${y + 4}" text-anchor="end" class="tick">${formatTick(tick)}</text>`,
+    );
+  }
+
+  // Ticks along x are spread evenly over the plotted range
+  const xs = options.series.flatMap((s) => s.points.map(([x]) => x));
+  for (const tick of niceTicks(minOf(xs), maxOf(xs), 8)) {
+    const x = xScale.map(tick);
+    if (x < 0 || x > plotWidth) continue;
+    parts.push(
+      `<text x="${x}" y="${plotHeight + 16}" text-anchor="middle" class="tick">${formatTick(tick)}</text>`,
+    );
+  }
+
+  parts.push(
+    `<line x1="0" y1="${plotHeight}" x2="${plotWidth}" y2="${plotHeight}" class="axis"/>`,
+    `<text x="${plotWidth / 2}" y="${plotHeight + 34}" text-anchor="middle" class="axis-label">${escapeHtml(options.xLabel)}</text>`,
+    `<text transform="translate(-52,${plotHeight / 2}) rotate(-90)" text-anchor="middle" class="axis-label">${escapeHtml(options.yLabel)}</text>`,
+  );
+
+  return parts.join('');
+}
+
+// Spreading into Math.min and Math.max overflows the stack on long series,
+// frame timings have one point per frame
+function minOf(values: number[]): number {
+  return values.reduce((min, value) => Math.min(min, value), Infinity);
+}
+
+function maxOf(values: number[]): number {
+  return values.reduce((max, value) => Math.max(max, value), -Infinity);
+}
+
+function svg(
+  title: string,
+  height: number,
+  body: string,
+  legend: Array<{label: string; color: string; opacity?: number}>,
+): string {
+  const legendItems = legend
+    .map(
+      (item, index) =>
+        `<g transform="translate(${MARGIN.left + index * 140},12)"><rect width="10" height="10" fill="${item.color}" opacity="${item.opacity ?? 1}"/><text x="14" y="9" class="tick">${escapeHtml(truncate(item.label, 20))}</text></g>`,
+    )
+    .join('');
+
+  return `<figure><figcaption>${escapeHtml(title)}</figcaption><svg viewBox="0 0 ${CHART_WIDTH} ${height}" width="100%" role="img">${legendItems}${body}</svg></figure>`;
+}
+
+function polylinePoints(
+  points: Array<[number, number]>,
+  xScale: Scale,
+  yScale: Scale,
+): string {
+  return points.map(([x, y]) => `${xScale.map(x)},${yScale.map(y)}`).join(' ');
+}
+
+function formatTick(value: number): string {
+  return Math.abs(value) >= 10000
+    ? `${round(value / 1000)}k`
+    : String(round(value));
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.slice(0, length - 1)}…` : value;
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(2));
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,74 @@
+import {escapeHtml} from './charts';
+
+const STYLES = `
+body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; color: #3f4350; margin: 0 auto; max-width: 960px; padding: 24px; }
+h1 { font-size: 24px; }
+h2 { font-size: 20px; margin-top: 48px; border-bottom: 1px solid #ddd; padding-bottom: 6px; }
+h3 { font-size: 16px; }
+table { border-collapse: collapse; font-size: 13px; margin: 12px 0; }
+th, td { border: 1px solid #ddd; padding: 4px 8px; text-align: right; }
+th:first-child, td:first-child { text-align: left; }
+th { background: #f4f4f6; }
+dl { display: grid; grid-template-columns: max-content auto; gap: 2px 16px; font-size: 13px; }
+dt { font-weight: 600; }
+figure { margin: 16px 0; }
+figcaption { font-weight: 600; font-size: 14px; }
+.tick { font-size: 11px; fill: #3f4350; }
+.axis-label { font-size: 12px; fill: #3f4350; }
+.annotation { font-size: 10px; }
+.grid { stroke: #eee; }
+.axis { stroke: #999; }
+.failed { color: #d24b4e; font-weight: 600; }
+`;
+
+/**
+ * Wraps the report body in a complete page with its styles inlined
+ */
+export function reportPage(title: string, body: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+/**
+ * Table of rows sharing the same keys, in the order of the first row
+ */
+export function table(rows: Array<Record<string, unknown>>): string {
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const headers = Object.keys(rows[0]);
+  const head = headers.map((h) => `<th>${escapeHtml(h)}</th>`).join('');
+  const body = rows
+    .map(
+      (row) =>
+        `<tr>${headers.map((h) => `<td>${escapeHtml(String(row[h] ?? ''))}</td>`).join('')}</tr>`,
+    )
+    .join('\n');
+
+  return `<table><thead><tr>${head}</tr></thead><tbody>\n${body}\n</tbody></table>`;
+}
+
+/**
+ * Definition list of labelled values
+ */
+export function definitionList(entries: Record<string, unknown>): string {
+  const items = Object.entries(entries)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(
+      ([label, value]) =>
+        `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(String(value))}</dd>`,
+    )
+    .join('');
+  return `<dl>${items}</dl>`;
+}
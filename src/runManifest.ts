@@ -0,0 +1,212 @@
+import {Browser} from 'puppeteer';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import {
+  createFilePath,
+  RESULTS_DIRECTORY,
+  takeArtifacts,
+} from './measurers/toFile';
+import {apiUrl, ProfilerConfig} from './config';
+import {ScenarioParams} from './scenarios/scenario';
+
+export const MANIFEST_FILENAME = 'manifest.json';
+
+export interface ServerInfo {
+  version: string;
+  buildNumber: string;
+  buildHash: string;
+  enterpriseReady: boolean;
+}
+
+export interface ScenarioManifest {
+  name: string;
+  params: ScenarioParams;
+  runs: number; // Times the scenario was repeated
+  startedAt: string;
+  endedAt?: string;
+  status: 'running' | 'passed' | 'failed' | 'interrupted';
+  error?: string;
+  artifacts: string[]; // Paths relative to the run directory
+}
+
+export interface RunManifestData {
+  runId: string;
+  startedAt: string;
+  endedAt?: string;
+  args: string[]; // Command line arguments as given
+  options: Record<string, unknown>; // Parsed command line options
+  config: Omit<ProfilerConfig, 'password' | 'accessToken'>;
+  versions: {
+    node: string;
+    puppeteer: string;
+    browser?: string;
+    userAgent?: string;
+    server?: ServerInfo;
+  };
+  scenarios: ScenarioManifest[];
+  artifacts: string[]; // Files of the whole run, such as budget results
+}
+
+/**
+ * Class that describes a run: what produced it and which files each
+ * scenario wrote. Saved as manifest.json in the run directory after every
+ * change, so an interrupted run still leaves a usable manifest.
+ */
+export class RunManifest {
+  private data: RunManifestData;
+
+  constructor(
+    runId: string,
+    startTime: Date,
+    options: Record<string, unknown>,
+    config: ProfilerConfig,
+  ) {
+    const {password, accessToken, ...configWithoutSecrets} = config;
+    this.data = {
+      runId,
+      startedAt: startTime.toISOString(),
+      args: process.argv.slice(2),
+      options,
+      config: configWithoutSecrets,
+      versions: {
+        node: process.version,
+        puppeteer: require('puppeteer/package.json').version,
+      },
+      scenarios: [],
+      artifacts: [],
+    };
+  }
+
+  /**
+   * Records the versions of the browser and of the Mattermost server
+   */
+  async recordVersions(
+    browser: Browser,
+    config: ProfilerConfig,
+  ): Promise<void> {
+    this.data.versions.browser = await browser.version();
+    this.data.versions.userAgent = await browser.userAgent();
+    this.data.versions.server = await fetchServerInfo(config);
+    await this.save();
+  }
+
+  get serverVersion(): string | undefined {
+    return this.data.versions.server?.version;
+  }
+
+  async startScenario(
+    name: string,
+    params: ScenarioParams,
+    runs: number,
+  ): Promise<void> {
+    // Files written before the scenario started are not its artifacts
+    takeArtifacts();
+
+    this.data.scenarios.push({
+      name,
+      params,
+      runs,
+      startedAt: new Date().toISOString(),
+      status: 'running',
+      artifacts: [],
+    });
+    await this.save();
+  }
+
+  /**
+   * Closes the running scenario with the files it wrote, failed when any
+   * of its runs failed
+   */
+  async endScenario(error?: unknown): Promise<void> {
+    const scenario = this.data.scenarios[this.data.scenarios.length - 1];
+    if (!scenario || scenario.status !== 'running') {
+      console.log('No scenario is running');
+      return;
+    }
+
+    scenario.endedAt = new Date().toISOString();
+    scenario.status = error === undefined ? 'passed' : 'failed';
+    if (error !== undefined) {
+      scenario.error = error instanceof Error ? error.message : String(error);
+    }
+    scenario.artifacts = takeArtifacts();
+    await this.save();
+  }
+
+  async finish(): Promise<void> {
+    this.data.endedAt = new Date().toISOString();
+    this.data.artifacts.push(...takeArtifacts());
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    const outputFile = createFilePath(MANIFEST_FILENAME);
+    try {
+      await fs.writeFile(outputFile, JSON.stringify(this.data, null, 2));
+    } catch (err) {
+      console.error(`Error writing run manifest to ${outputFile}:`, err);
+    }
+  }
+}
+
+/**
+ * Reads the manifest of a run, given its directory or its id in the results directory
+ */
+export async function loadRunManifest(
+  run: string,
+): Promise<{directory: string; manifest: RunManifestData}> {
+  const candidates = [run, path.join(RESULTS_DIRECTORY, run)];
+  for (const directory of candidates) {
+    try {
+      const content = await fs.readFile(
+        path.join(directory, MANIFEST_FILENAME),
+        'utf8',
+      );
+      return {directory, manifest: JSON.parse(content)};
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw err;
+      }
+    }
+  }
+
+  throw new Error(`No ${MANIFEST_FILENAME} found for run ${run}`);
+}
+
+/**
+ * Writes back the manifest of an existing run
+ */
+export async function saveRunManifest(
+  directory: string,
+  manifest: RunManifestData,
+): Promise<void> {
+  await fs.writeFile(
+    path.join(directory, MANIFEST_FILENAME),
+    JSON.stringify(manifest, null, 2),
+  );
+}
+
+/**
+ * Reads the server version from the client config, which needs no login
+ */
+async function fetchServerInfo(
+  config: ProfilerConfig,
+): Promise<ServerInfo | undefined> {
+  const url = apiUrl(config, 'config/client?format=old');
+  try {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`${response.status} ${response.statusText}`);
+    }
+    const clientConfig = await response.json();
+    return {
+      version: clientConfig.Version,
+      buildNumber: clientConfig.BuildNumber,
+      buildHash: clientConfig.BuildHash,
+      enterpriseReady: clientConfig.BuildEnterpriseReady === 'true',
+    };
+  } catch (err) {
+    console.error(`Error reading server version from ${url}:`, err);
+    return undefined;
+  }
+}
@@ -0,0 +1,11 @@
+// Importing a scenario module registers it
+import './login';
+import './pageLoad';
+import './scrollingInOneChannel';
+import './scrollingInTwoChannels';
+import './switchSameChannels';
+import './switchToEachChannel';
+
+export * from './registry';
+export * from './runner';
+export * from './scenario';
@@ -0,0 +1,159 @@
+import {Page} from 'puppeteer';
+import {
+  MemoryMetrics,
+  measureMemoryUsage,
+  MEMORY_COLUMNS,
+} from '../measurers/memory';
+import {convertTimestampsToSeconds} from '../measurers/toFile';
+import {ResultStream} from '../measurers/resultStream';
+import {POST_LIST_SELECTOR} from '../measurers/postList';
+import {recordMetric} from '../measurers/metrics';
+import {markPhase} from '../measurers/trace';
+import {median} from '../analysis/statistics';
+import {clearSession} from '../auth';
+import {channelUrl, ProfilerConfig} from '../config';
+import {registerScenario} from './registry';
+import {Scenario} from './scenario';
+
+interface LoginTiming {
+  timeToLoginForm: number; // ms from navigation until the login form showed
+  timeToSidebar: number; // ms from submitting until the sidebar showed
+  timeToFirstPost: number; // ms from submitting until a post was rendered
+}
+
+interface LoginMetrics extends MemoryMetrics, LoginTiming {}
+
+const LOGIN_TIMING_METRICS: Array<keyof LoginTiming> = [
+  'timeToLoginForm',
+  'timeToSidebar',
+  'timeToFirstPost',
+];
+
+type LoginParams = {iterations: number; waitAfterLogin: number};
+
+export const loginScenario: Scenario<LoginParams> = {
+  name: 'login',
+  description:
+    'Logs out and back in through the landing page and login form, timing each step',
+  params: {
+    iterations: {
+      type: 'number',
+      description: 'Logins through the UI, one memory sample each',
+      default: 5,
+    },
+    waitAfterLogin: {
+      type: 'number',
+      description: 'Milliseconds to wait after each login before measuring',
+      default: 1500,
+    },
+  },
+  run: ({page, config, startTime, timestamp, params}) =>
+    profileLogin(
+      page,
+      config,
+      startTime,
+      timestamp,
+      params.iterations,
+      params.waitAfterLogin,
+    ),
+};
+
+registerScenario(loginScenario);
+
+export async function profileLogin(
+  page: Page,
+  config: ProfilerConfig,
+  startTime: Date,
+  timestamp: string,
+  iterations: number,
+  waitAfterLogin: number,
+): Promise<LoginMetrics[]> {
+  const measurements: LoginMetrics[] = [];
+  const stream = new ResultStream(`login-memory-profile-${timestamp}`);
+
+  console.log(`Started logging in through the UI ${iterations} times`);
+
+  for (let i = 1; i <= iterations; i++) {
+    // Whatever session the page had, the next load starts logged out
+    await clearSession(page);
+
+    await markPhase(page, `login ${i}`);
+    const timing = await loginThroughUi(page, config);
+    await new Promise((resolve) => setTimeout(resolve, waitAfterLogin));
+
+    const metrics = await measureMemoryUsage(page);
+    const sample: LoginMetrics = {
+      ...metrics,
+      diffTimestamp: metrics.timestamp - startTime.getTime(),
+      iteration: i,
+      ...timing,
+    };
+    measurements.push(sample);
+    await stream.append(convertTimestampsToSeconds([sample]));
+
+    console.log(
+      `Login ${i}: form after ${timing.timeToLoginForm}ms, sidebar ${timing.timeToSidebar}ms and first post ${timing.timeToFirstPost}ms after submitting`,
+    );
+  }
+
+  for (const metric of LOGIN_TIMING_METRICS) {
+    const values = measurements.map((m) => m[metric]);
+    recordMetric(`login.${metric}.p50`, median(values));
+    recordMetric(`login.${metric}.max`, Math.max(...values));
+  }
+
+  await stream.save('csv', MEMORY_COLUMNS);
+
+  return measurements;
+}
+
+/**
+ * Opens the main channel logged out and goes through the "open in app"
+ * prompt and the login form like a user would
+ */
+async function loginThroughUi(
+  page: Page,
+  config: ProfilerConfig,
+): Promise<LoginTiming> {
+  const navigationStart = Date.now();
+  await page.goto(channelUrl(config, config.channel));
+
+  await handlePreferenceCheckbox(page);
+  await clickViewInBrowser(page);
+  await page.waitForSelector('#input_loginId');
+  const timeToLoginForm = Date.now() - navigationStart;
+
+  await page.type('#input_loginId', config.user);
+  await page.type('#input_password-input', config.password);
+
+  const submitStart = Date.now();
+  await page.keyboard.press('Enter');
+  await page.waitForSelector(`#sidebarItem_${config.channel}`);
+  const timeToSidebar = Date.now() - submitStart;
+  await page.waitForSelector(`${POST_LIST_SELECTOR} .post`);
+  const timeToFirstPost = Date.now() - submitStart;
+
+  return {timeToLoginForm, timeToSidebar, timeToFirstPost};
+}
+
+async function handlePreferenceCheckbox(page: Page): Promise<void> {
+  await page.waitForSelector(
+    'label.get-app__preference input.get-app__checkbox',
+  );
+  await page.click('label.get-app__preference input.get-app__checkbox');
+}
+
+async function clickViewInBrowser(page: Page): Promise<void> {
+  await page.waitForSelector('a.btn.btn-tertiary.btn-lg');
+  await page.evaluate(() => {
+    const buttons = Array.from(
+      document.querySelectorAll('a.btn.btn-tertiary.btn-lg'),
+    );
+    const viewButton = buttons.find(
+      (button) => button.textContent?.trim() === 'View in Browser',
+    );
+    if (viewButton) {
+      (viewButton as HTMLElement).click();
+    }
+  });
+}
@@ -0,0 +1,149 @@
+import {Page} from 'puppeteer';
+import {
+  MemoryMetrics,
+  measureMemoryUsage,
+  MEMORY_COLUMNS,
+} from '../measurers/memory';
+import {convertTimestampsToSeconds} from '../measurers/toFile';
+import {ResultStream} from '../measurers/resultStream';
+import {POST_LIST_SELECTOR} from '../measurers/postList';
+import {
+  CACHE_MODES,
+  CacheMode,
+  PAGE_LOAD_METRICS,
+  PageLoadMeasurer,
+  PageLoadTiming,
+} from '../measurers/pageLoad';
+import {recordMetric} from '../measurers/metrics';
+import {markPhase} from '../measurers/trace';
+import {median, percentile} from '../analysis/statistics';
+import {channelUrl, ProfilerConfig} from '../config';
+import {registerScenario} from './registry';
+import {Scenario} from './scenario';
+
+interface PageLoadMetrics extends MemoryMetrics, PageLoadTiming {
+  cacheMode: CacheMode;
+}
+
+type PageLoadParams = {loads: number; cacheModes: string};
+
+export const pageLoadScenario: Scenario<PageLoadParams> = {
+  name: 'page-load',
+  description:
+    'Loads the webapp on the main channel repeatedly, with a cleared and with a primed HTTP cache',
+  params: {
+    loads: {
+      type: 'number',
+      description: 'Loads in each cache mode, one memory sample each',
+      default: 5,
+    },
+    cacheModes: {
+      type: 'string',
+      description: 'Cache modes to load in, comma separated: cold, warm',
+      default: CACHE_MODES.join(','),
+      validate: (value) => {
+        parseCacheModes(value);
+      },
+    },
+  },
+  run: ({page, config, startTime, timestamp, params}) =>
+    profilePageLoads(
+      page,
+      config,
+      startTime,
+      timestamp,
+      params.loads,
+      parseCacheModes(params.cacheModes),
+    ),
+};
+
+registerScenario(pageLoadScenario);
+
+export async function profilePageLoads(
+  page: Page,
+  config: ProfilerConfig,
+  startTime: Date,
+  timestamp: string,
+  loads: number,
+  cacheModes: CacheMode[],
+): Promise<PageLoadMetrics[]> {
+  const measurements: PageLoadMetrics[] = [];
+  const stream = new ResultStream(`page-load-memory-profile-${timestamp}`);
+  const url = channelUrl(config, config.channel);
+
+  const measurer = new PageLoadMeasurer(page, {
+    sidebar: `#sidebarItem_${config.channel}`,
+    postList: `${POST_LIST_SELECTOR} .post`,
+  });
+  await measurer.start();
+
+  console.log(
+    `Started loading the webapp ${loads} times in ${cacheModes.join(' and ')} cache mode`,
+  );
+
+  try {
+    for (const cacheMode of cacheModes) {
+      // The first warm load finds the cache a load left, whatever ran before
+      if (cacheMode === 'warm') {
+        await measurer.measure(url, 'warm');
+      }
+
+      for (let i = 1; i <= loads; i++) {
+        await markPhase(page, `${cacheMode} load ${i}`);
+        const timing = await measurer.measure(url, cacheMode);
+
+        const metrics = await measureMemoryUsage(page);
+        const sample: PageLoadMetrics = {
+          ...metrics,
+          diffTimestamp: metrics.timestamp - startTime.getTime(),
+          iteration: i,
+          cacheMode,
+          ...timing,
+        };
+        measurements.push(sample);
+        await stream.append(convertTimestampsToSeconds([sample]));
+
+        console.log(
+          `${cacheMode} load ${i}: FCP ${timing.firstContentfulPaint}ms, LCP ${timing.largestContentfulPaint}ms, post list usable after ${timing.postListInteractive}ms, ${timing.transferredBytes} bytes transferred`,
+        );
+      }
+    }
+  } finally {
+    await measurer.stop();
+  }
+
+  for (const cacheMode of cacheModes) {
+    const loadsInMode = measurements.filter((m) => m.cacheMode === cacheMode);
+    for (const metric of PAGE_LOAD_METRICS) {
+      const values = loadsInMode
+        .map((m) => m[metric])
+        .filter((value): value is number => value !== undefined);
+      if (values.length === 0) continue;
+      recordMetric(`pageLoad.${cacheMode}.${metric}.p50`, median(values));
+      recordMetric(
+        `pageLoad.${cacheMode}.${metric}.p90`,
+        percentile(values, 90),
+      );
+    }
+  }
+
+  await stream.save('csv', MEMORY_COLUMNS);
+
+  return measurements;
+}
+
+function parseCacheModes(value: string): CacheMode[] {
+  const modes = value
+    .split(',')
+    .map((mode) => mode.trim())
+    .filter(Boolean);
+  const unknown = modes.filter(
+    (mode) => !CACHE_MODES.includes(mode as CacheMode),
+  );
+  if (modes.length === 0 || unknown.length > 0) {
+    throw new Error(
+      `Param "cacheModes" must list ${CACHE_MODES.join(' and/or ')}, got "${value}"`,
+    );
+  }
+  return modes as CacheMode[];
+}
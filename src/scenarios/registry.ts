@@ -0,0 +1,110 @@
+import {Scenario, ScenarioParams, ScenarioParamValue} from './scenario';
+
+const scenarios = new Map<string, Scenario>();
+
+/**
+ * Makes a scenario available to the CLI
+ */
+export function registerScenario<P extends ScenarioParams>(
+  scenario: Scenario<P>,
+): void {
+  if (scenarios.has(scenario.name)) {
+    throw new Error(`Scenario ${scenario.name} is already registered`);
+  }
+  scenarios.set(scenario.name, scenario);
+}
+
+export function getScenario(name: string): Scenario | undefined {
+  return scenarios.get(name);
+}
+
+export function listScenarios(): Scenario[] {
+  return Array.from(scenarios.values());
+}
+
+/**
+ * Parses raw key=value strings from the command line into typed params.
+ * A key may be prefixed with the scenario name ("scroll-two-channels.scrollCount")
+ * to target a single scenario, otherwise it applies to every selected
+ * scenario that declares it.
+ */
+export function resolveScenarioParams(
+  selected: Scenario[],
+  rawParams: string[],
+): Map<string, ScenarioParams> {
+  const resolved = new Map<string, ScenarioParams>();
+  for (const scenario of selected) {
+    const defaults: ScenarioParams = {};
+    for (const [key, param] of Object.entries(scenario.params)) {
+      defaults[key] = param.default;
+    }
+    resolved.set(scenario.name, defaults);
+  }
+
+  for (const rawParam of rawParams) {
+    const separatorIndex = rawParam.indexOf('=');
+    if (separatorIndex <= 0) {
+      throw new Error(`Invalid --param "${rawParam}", expected key=value`);
+    }
+    const key = rawParam.slice(0, separatorIndex).trim();
+    const rawValue = rawParam.slice(separatorIndex + 1).trim();
+
+    const dotIndex = key.lastIndexOf('.');
+    const scenarioName = dotIndex > 0 ? key.slice(0, dotIndex) : undefined;
+    const paramName = dotIndex > 0 ? key.slice(dotIndex + 1) : key;
+
+    const targets = selected.filter(
+      (scenario) =>
+        (!scenarioName || scenario.name === scenarioName) &&
+        paramName in scenario.params,
+    );
+    if (targets.length === 0) {
+      throw new Error(
+        `Unknown param "${key}" for the selected scenarios (${selected.map((s) => s.name).join(', ')})`,
+      );
+    }
+
+    for (const scenario of targets) {
+      const param = scenario.params[paramName];
+      resolved.get(scenario.name)![paramName] = parseParamValue(
+        rawValue,
+        param.type,
+        key,
+      );
+    }
+  }
+
+  // Checked before the browser launches rather than when the scenario runs
+  for (const scenario of selected) {
+    const params = resolved.get(scenario.name)!;
+    for (const [key, param] of Object.entries(scenario.params)) {
+      param.validate?.(params[key]);
+    }
+  }
+
+  return resolved;
+}
+
+function parseParamValue(
+  rawValue: string,
+  type: 'number' | 'string' | 'boolean',
+  key: string,
+): ScenarioParamValue {
+  switch (type) {
+    case 'number': {
+      const value = Number(rawValue);
+      if (rawValue === '' || Number.isNaN(value)) {
+        throw new Error(`Param "${key}" must be a number, got "${rawValue}"`);
+      }
+      return value;
+    }
+    case 'boolean':
+      if (rawValue === 'true') return true;
+      if (rawValue === 'false') return false;
+      throw new Error(
+        `Param "${key}" must be true or false, got "${rawValue}"`,
+      );
+    default:
+      return rawValue;
+  }
+}
@@ -0,0 +1,233 @@
+import {forceGarbageCollection} from '../measurers/garbageCollector';
+import {takeHeapSnapshot} from '../measurers/heapSnapshot';
+import {MainThreadMeasurer} from '../measurers/mainThread';
+import {NetworkMeasurer} from '../measurers/network';
+import {markPhase, TraceRecorder} from '../measurers/trace';
+import {CpuProfiler} from '../measurers/cpuProfile';
+import {createAndSaveToFiles} from '../measurers/toFile';
+import {diffHeapSnapshots, HeapClassDiff} from '../analysis/heapSnapshot';
+import {MemoryMetrics} from '../measurers/memory';
+import {recordMetric} from '../measurers/metrics';
+import {Scenario, ScenarioContext, ScenarioParams} from './scenario';
+
+export interface RunScenarioOptions {
+  heapSnapshots: boolean; // Snapshot the heap before and after the run
+  trace: boolean; // Record a performance trace of the run
+  cpuProfile?: {
+    samplingIntervalUs: number;
+    topCount: number; // Functions kept in the hot function summary
+  };
+}
+
+// Classes listed in the console, the saved diff report has all of them
+const HEAP_DIFF_LOG_LIMIT = 10;
+
+// What runScenario needs of the measurers that run alongside a scenario
+interface RunMeasurer {
+  start(): Promise<unknown>;
+  stop(): Promise<unknown>;
+}
+
+/**
+ * Runs a scenario through its setup, run and teardown phases
+ */
+export async function runScenario<P extends ScenarioParams>(
+  scenario: Scenario<P>,
+  context: ScenarioContext<P>,
+  options: RunScenarioOptions,
+): Promise<MemoryMetrics[]> {
+  console.log(`\nRunning scenario ${scenario.name}`);
+
+  if (scenario.setup) {
+    await scenario.setup(context);
+  }
+
+  try {
+    const snapshotBefore = options.heapSnapshots
+      ? await takeScenarioHeapSnapshot(scenario, context, 'before')
+      : undefined;
+
+    // Measurers that started, each is stopped even when the run failed
+    const running: RunMeasurer[] = [];
+    let measurements: MemoryMetrics[];
+    try {
+      if (options.trace) {
+        await startMeasurer(
+          running,
+          new TraceRecorder(
+            context.page,
+            `${scenario.name}-trace-${context.timestamp}`,
+          ),
+        );
+      }
+
+      if (options.cpuProfile) {
+        await startMeasurer(
+          running,
+          new CpuProfiler(
+            context.page,
+            `${scenario.name}-cpu-profile-${context.timestamp}`,
+            options.cpuProfile.samplingIntervalUs,
+            options.cpuProfile.topCount,
+          ),
+        );
+      }
+
+      // Long tasks, layout shifts and interactions over the whole run
+      await startMeasurer(
+        running,
+        new MainThreadMeasurer(
+          context.page,
+          `${scenario.name}-main-thread-${context.timestamp}`,
+        ),
+      );
+
+      // Every request and websocket frame, attributed to the phase it was sent in
+      await startMeasurer(
+        running,
+        new NetworkMeasurer(
+          context.page,
+          `${scenario.name}-network-${context.timestamp}`,
+          context.config.baseUrl,
+        ),
+      );
+
+      await markPhase(context.page, `${scenario.name} start`);
+      measurements = await scenario.run(context);
+      await markPhase(context.page, `${scenario.name} end`);
+    } finally {
+      await stopMeasurers(running);
+    }
+
+    recordMemoryMetrics(measurements);
+
+    if (snapshotBefore) {
+      const snapshotAfter = await takeScenarioHeapSnapshot(
+        scenario,
+        context,
+        'after',
+      );
+      await reportHeapDiff(scenario, context, snapshotBefore, snapshotAfter);
+    }
+
+    return measurements;
+  } finally {
+    if (scenario.teardown) {
+      await scenario.teardown(context);
+    }
+  }
+}
+
+/**
+ * Starts a measurer and adds it to the running ones only once it started,
+ * a failed start leaves nothing to stop
+ */
+async function startMeasurer(
+  running: RunMeasurer[],
+  measurer: RunMeasurer,
+): Promise<void> {
+  await measurer.start();
+  running.push(measurer);
+}
+
+/**
+ * Stops the running measurers, last started first. A failed stop is logged
+ * only, so the others still stop and the error of the run is not replaced.
+ */
+async function stopMeasurers(running: RunMeasurer[]): Promise<void> {
+  for (const measurer of [...running].reverse()) {
+    try {
+      await measurer.stop();
+    } catch (err) {
+      console.error(`Error stopping ${measurer.constructor.name}:`, err);
+    }
+  }
+}
+
+/**
+ * Records where the heap ended, its peak and its growth over the run.
+ * Growth between samples taken right after a forced GC is also recorded,
+ * it is not blurred by garbage waiting to be collected.
+ */
+function recordMemoryMetrics(measurements: MemoryMetrics[]): void {
+  if (measurements.length === 0) {
+    return;
+  }
+
+  const heapMB = measurements.map((m) => m.heapUsedMB ?? m.heapTotalMB);
+  const last = measurements[measurements.length - 1];
+
+  recordMetric('memory.finalHeapMB', heapMB[heapMB.length - 1]);
+  recordMetric('memory.peakHeapMB', Math.max(...heapMB));
+  recordMetric('memory.heapGrowthMB', heapMB[heapMB.length - 1] - heapMB[0]);
+
+  const afterGC = measurements.filter((m) => m.afterGC);
+  if (afterGC.length >= 2) {
+    const first = afterGC[0];
+    const lastAfterGC = afterGC[afterGC.length - 1];
+    recordMetric(
+      'memory.postGCHeapGrowthMB',
+      (lastAfterGC.heapUsedMB ?? lastAfterGC.heapTotalMB) -
+        (first.heapUsedMB ?? first.heapTotalMB),
+    );
+  }
+
+  if (last.nodes !== undefined) {
+    recordMetric('memory.finalNodes', last.nodes);
+  }
+}
+
+async function takeScenarioHeapSnapshot<P extends ScenarioParams>(
+  scenario: Scenario<P>,
+  context: ScenarioContext<P>,
+  label: 'before' | 'after',
+): Promise<string> {
+  // Only what survives a collection is interesting in a snapshot
+  await forceGarbageCollection(context.page);
+
+  return takeHeapSnapshot(
+    context.page,
+    `${scenario.name}-heap-${label}-${context.timestamp}`,
+  );
+}
+
+/**
+ * Saves the per-class growth between two snapshots and logs the top entries.
+ * A failed comparison is logged only, the snapshots stay for DevTools and the
+ * run keeps its measurements.
+ */
+async function reportHeapDiff<P extends ScenarioParams>(
+  scenario: Scenario<P>,
+  context: ScenarioContext<P>,
+  snapshotBefore: string,
+  snapshotAfter: string,
+): Promise<void> {
+  console.log('Comparing heap snapshots...');
+  let diffs: HeapClassDiff[];
+  try {
+    diffs = await diffHeapSnapshots(snapshotBefore, snapshotAfter);
+  } catch (err) {
+    console.error(
+      `Error comparing heap snapshots ${snapshotBefore} and ${snapshotAfter}:`,
+      err,
+    );
+    return;
+  }
+
+  await createAndSaveToFiles(
+    diffs,
+    `${scenario.name}-heap-diff-${context.timestamp}`,
+  );
+
+  console.log(`Largest retained size growth in ${scenario.name}:`);
+  for (const diff of diffs.slice(0, HEAP_DIFF_LOG_LIMIT)) {
+    console.log(
+      `  ${diff.className}: ${formatBytes(diff.retainedSizeDelta)} retained, ${diff.countDelta >= 0 ? '+' : ''}${diff.countDelta} objects`,
+    );
+  }
+}
+
+function formatBytes(bytes: number): string {
+  const sign = bytes < 0 ? '-' : '+';
+  return `${sign}${(Math.abs(bytes) / 1024).toFixed(1)} KB`;
+}
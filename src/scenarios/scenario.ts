@@ -0,0 +1,46 @@
+import {Page} from 'puppeteer';
+import {ProfilerConfig} from '../config';
+import {MemoryMetrics} from '../measurers/memory';
+
+export type ScenarioParamValue = number | string | boolean;
+
+export type ScenarioParams = Record<string, ScenarioParamValue>;
+
+export interface ScenarioParam<T extends ScenarioParamValue> {
+  type: T extends number ? 'number' : T extends string ? 'string' : 'boolean';
+  description: string;
+  default: T;
+  // Throws when a value of the right type is still not usable
+  validate?(value: T): void;
+}
+
+// One parameter definition for every key of the scenario's params
+export type ScenarioParamSchema<P extends ScenarioParams> = {
+  [K in keyof P]: ScenarioParam<P[K]>;
+};
+
+/**
+ * Everything a scenario needs while running
+ */
+export interface ScenarioContext<P extends ScenarioParams = ScenarioParams> {
+  page: Page;
+  config: ProfilerConfig;
+  startTime: Date; // When the profiler run started
+  timestamp: string; // Formatted start time used in result filenames
+  params: P;
+}
+
+/**
+ * A profiling scenario that can be selected with --test
+ */
+export interface Scenario<P extends ScenarioParams = ScenarioParams> {
+  name: string;
+  description: string;
+  params: ScenarioParamSchema<P>;
+
+  // Prepares the page, not part of the measurement
+  setup?(context: ScenarioContext<P>): Promise<void>;
+  run(context: ScenarioContext<P>): Promise<MemoryMetrics[]>;
+  // Runs after run(), even when it failed
+  teardown?(context: ScenarioContext<P>): Promise<void>;
+}
@@ -0,0 +1,131 @@
+import {Page} from 'puppeteer';
+import {convertTimestampsToSeconds} from '../measurers/toFile';
+import {ResultStream} from '../measurers/resultStream';
+import {createFrameMeasurer} from '../measurers/frameMeasurer';
+import {forceGarbageCollection} from '../measurers/garbageCollector';
+import {ProfilerConfig} from '../config';
+import {
+  ChannelScrollMemoryMetrics,
+  profileScrollingInChannel,
+  ScrollMemoryMetrics,
+} from './scrollingInTwoChannels';
+import {MEMORY_COLUMNS} from '../measurers/memory';
+import {registerScenario} from './registry';
+import {Scenario} from './scenario';
+
+type ScrollOneChannelParams = {
+  scrollCount: number;
+  pixelsPerScroll: number;
+  delayBetweenScrolls: number;
+};
+
+export const scrollOneChannelScenario: Scenario<ScrollOneChannelParams> = {
+  name: 'scroll-one-channel',
+  description:
+    'Scrolls up through the history of the main channel, tracking how many posts stay rendered',
+  params: {
+    scrollCount: {
+      type: 'number',
+      description: 'Number of scroll steps',
+      default: 400,
+    },
+    pixelsPerScroll: {
+      type: 'number',
+      description: 'Pixels scrolled up on each step',
+      default: 300,
+    },
+    delayBetweenScrolls: {
+      type: 'number',
+      description: 'Milliseconds to wait after each scroll step',
+      default: 150,
+    },
+  },
+  setup: async ({page}) => {
+    await forceGarbageCollection(page);
+  },
+  run: ({page, config, startTime, timestamp, params}) =>
+    profileScrollingInOneChannel(
+      page,
+      config,
+      startTime,
+      timestamp,
+      params.scrollCount,
+      params.pixelsPerScroll,
+      params.delayBetweenScrolls,
+    ),
+};
+
+registerScenario(scrollOneChannelScenario);
+
+export async function profileScrollingInOneChannel(
+  page: Page,
+  config: ProfilerConfig,
+  startTime: Date,
+  timestamp: string,
+  scrollCount: number,
+  pixelsPerScroll: number,
+  delayBetweenScrolls: number,
+): Promise<ScrollMemoryMetrics[]> {
+  const channelId = `sidebarItem_${config.channel}`;
+  const stream = new ResultStream<ChannelScrollMemoryMetrics>(
+    `scroll-one-channel-memory-profile-${timestamp}`,
+  );
+
+  const frameMeasurer = createFrameMeasurer(
+    page,
+    config.frameMeasurement,
+    'scroll-one-channel',
+    timestamp,
+  );
+  await frameMeasurer.start();
+
+  let measurements: ScrollMemoryMetrics[];
+  try {
+    console.log(`Started scrolling test in ${config.channel}`);
+    console.log(
+      `Configuration: ${scrollCount} scrolls, ${pixelsPerScroll}px per scroll, ${delayBetweenScrolls}ms delay`,
+    );
+
+    // Wait a bit to ensure the frame rate measuring has started
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+
+    measurements = await profileScrollingInChannel(
+      page,
+      startTime,
+      channelId,
+      scrollCount,
+      pixelsPerScroll,
+      delayBetweenScrolls,
+      stream,
+    );
+  } finally {
+    await frameMeasurer.stop();
+  }
+
+  logVirtualizationSummary(measurements);
+
+  // Convert timestamps to include seconds
+  const dataWithSeconds = convertTimestampsToSeconds(measurements);
+
+  await stream.save('csv', MEMORY_COLUMNS, dataWithSeconds);
+
+  return measurements;
+}
+
+/**
+ * Logs how the rendered post count evolved while older posts were loaded.
+ * A virtualized list should keep it roughly flat however much history is fetched.
+ */
+function logVirtualizationSummary(measurements: ScrollMemoryMetrics[]): void {
+  const postCounts = measurements.map((m) => m.postNodeCount ?? 0);
+  const loadMoreCount = measurements.filter((m) => m.loadMoreFired).length;
+
+  if (postCounts.length === 0) {
+    return;
+  }
+
+  console.log(
+    `Rendered posts: first ${postCounts[0]}, last ${postCounts[postCounts.length - 1]}, max ${Math.max(...postCounts)}`,
+  );
+  console.log(`Steps that loaded older posts: ${loadMoreCount}`);
+}
@@ -1,22 +1,86 @@
 import {Page} from 'puppeteer';
 import {
   convertTimestampsToSeconds,
-  createAndSaveToFiles,
+  ensureResultsDirectory,
 } from '../measurers/toFile';
-import * as path from 'path';
-import {FrameRateMeasurer} from '../measurers/frameRate';
-import {measureMemoryUsage, MemoryMetrics} from '../measurers/memory';
-import * as fs from 'fs/promises';
+import {ResultStream} from '../measurers/resultStream';
+import {createFrameMeasurer} from '../measurers/frameMeasurer';
+import {
+  measureMemoryUsage,
+  MemoryMetrics,
+  MEMORY_COLUMNS,
+} from '../measurers/memory';
 import {forceGarbageCollection} from '../measurers/garbageCollector';
+import {ProfilerConfig} from '../config';
+import {
+  LoadMoreWatcher,
+  measurePostListSize,
+  POST_LIST_SELECTOR,
+} from '../measurers/postList';
+import {markPhase} from '../measurers/trace';
+import {registerScenario} from './registry';
+import {Scenario} from './scenario';
 
-interface ScrollMemoryMetrics extends MemoryMetrics {
+export interface ScrollMemoryMetrics extends MemoryMetrics {
   scrollPosition: number; // Scroll position in pixels
   frameRate?: number; // Frames per second (frame rate)
   frameTime?: number; // Average time to render a frame in ms
+  postNodeCount?: number; // Post elements rendered in the virtualized list
+  listNodeCount?: number; // All elements rendered in the virtualized list
+  loadMoreFired?: boolean; // Whether older posts were fetched during the step
 }
 
+export interface ChannelScrollMemoryMetrics extends ScrollMemoryMetrics {
+  channel: string; // Sidebar element id of the scrolled channel
+}
+
+type ScrollTwoChannelsParams = {
+  scrollCount: number;
+  pixelsPerScroll: number;
+  delayBetweenScrolls: number;
+};
+
+export const scrollTwoChannelsScenario: Scenario<ScrollTwoChannelsParams> = {
+  name: 'scroll-two-channels',
+  description:
+    'Scrolls up through the history of the main channel, then of the secondary channel',
+  params: {
+    scrollCount: {
+      type: 'number',
+      description: 'Number of scroll steps in each channel',
+      default: 400,
+    },
+    pixelsPerScroll: {
+      type: 'number',
+      description: 'Pixels scrolled up on each step',
+      default: 300,
+    },
+    delayBetweenScrolls: {
+      type: 'number',
+      description: 'Milliseconds to wait after each scroll step',
+      default: 150,
+    },
+  },
+  setup: async ({page}) => {
+    await forceGarbageCollection(page);
+  },
+  run: ({page, config, startTime, timestamp, params}) =>
+    profileScrollingInTwoChannels(
+      page,
+      config,
+      startTime,
+      timestamp,
+      params.scrollCount,
+      params.pixelsPerScroll,
+      params.delayBetweenScrolls,
+    ),
+};
+
+registerScenario(scrollTwoChannelsScenario);
+
 export async function profileScrollingInTwoChannels(
   page: Page,
+  config: ProfilerConfig,
   startTime: Date,
   timestamp: string,
   scrollCount: number,
@@ -24,106 +88,116 @@ export async function profileScrollingInTwoChannels(
   delayBetweenScrolls: number,
 ) {
   // Ensure results directory exists
-  const resultsDir = path.join(process.cwd(), 'results');
-  try {
-    await fs.mkdir(resultsDir, {recursive: true});
-  } catch (err) {
-    console.log('Results directory already exists');
-  }
+  await ensureResultsDirectory();
 
   // First channel (town-square by default)
-  const firstChannelId = 'sidebarItem_town-square';
+  const firstChannelId = `sidebarItem_${config.channel}`;
   // Second channel (off-topic by default)
-  const secondChannelId = 'sidebarItem_off-topic';
+  const secondChannelId = `sidebarItem_${config.secondaryChannel}`;
 
-  await forceGarbageCollection(page);
-
-  // Create frame rate measurer with descriptive filename
-  const frameRateFilename = `scroll-two-channels-framerate-${timestamp}`;
-  const frameRateMeasurer = new FrameRateMeasurer(page, frameRateFilename);
-
-  await frameRateMeasurer.start();
-
-  console.log('Started scrolling test in two channels');
-  console.log(
-    `Configuration: ${scrollCount} scrolls, ${pixelsPerScroll}px per scroll, ${delayBetweenScrolls}ms delay`,
+  const stream = new ResultStream<ChannelScrollMemoryMetrics>(
+    `scroll-two-channels-memory-profile-${timestamp}`,
   );
 
-  // Wait a bit to ensure the frame rate measuring has started
-  await new Promise((resolve) => setTimeout(resolve, 2000));
-
-  // Scroll in the first channel
-  const firstChannelMeasurements = await profileScrollingInChannel(
+  const frameMeasurer = createFrameMeasurer(
     page,
-    startTime,
-    firstChannelId,
-    scrollCount,
-    pixelsPerScroll,
-    delayBetweenScrolls,
+    config.frameMeasurement,
+    'scroll-two-channels',
+    timestamp,
   );
 
-  // Wait a bit before switching channels
-  await new Promise((resolve) => setTimeout(resolve, 2000));
+  await frameMeasurer.start();
 
-  // Scroll in the second channel
-  const secondChannelMeasurements = await profileScrollingInChannel(
-    page,
-    startTime,
-    secondChannelId,
-    scrollCount,
-    pixelsPerScroll,
-    delayBetweenScrolls,
-  );
+  let combinedMeasurements: ChannelScrollMemoryMetrics[];
+  try {
+    console.log('Started scrolling test in two channels');
+    console.log(
+      `Configuration: ${scrollCount} scrolls, ${pixelsPerScroll}px per scroll, ${delayBetweenScrolls}ms delay`,
+    );
+
+    // Wait a bit to ensure the frame rate measuring has started
+    await new Promise((resolve) => setTimeout(resolve, 2000));
+
+    // Scroll in the first channel
+    const firstChannelMeasurements = await profileScrollingInChannel(
+      page,
+      startTime,
+      firstChannelId,
+      scrollCount,
+      pixelsPerScroll,
+      delayBetweenScrolls,
+      stream,
+    );
 
-  // Wait before stopping frame rate measurement to ensure we capture all data
-  await new Promise((resolve) => setTimeout(resolve, 2000));
+    // Wait a bit before switching channels
+    await new Promise((resolve) => setTimeout(resolve, 2000));
 
-  // Create and save a combined report
-  const lastFirstChannelTimestamp =
-    firstChannelMeasurements.length > 0
-      ? firstChannelMeasurements[firstChannelMeasurements.length - 1]
-          .diffTimestamp || 0
-      : 0;
+    // Scroll in the second channel
+    const secondChannelMeasurements = await profileScrollingInChannel(
+      page,
+      startTime,
+      secondChannelId,
+      scrollCount,
+      pixelsPerScroll,
+      delayBetweenScrolls,
+      stream,
+    );
+
+    // Wait before stopping frame rate measurement to ensure we capture all data
+    await new Promise((resolve) => setTimeout(resolve, 2000));
 
-  // Add 2000ms for the wait time between channel switches
-  const timeOffset = lastFirstChannelTimestamp + 2000;
+    // Create and save a combined report
+    const lastFirstChannelTimestamp =
+      firstChannelMeasurements.length > 0
+        ? firstChannelMeasurements[firstChannelMeasurements.length - 1]
+            .diffTimestamp || 0
+        : 0;
 
-  const combinedMeasurements = [
-    ...firstChannelMeasurements.map((m) => ({...m, channel: firstChannelId})),
-    ...secondChannelMeasurements.map((m) => ({
-      ...m,
-      channel: secondChannelId,
-      // Adjust timestamps to continue from first channel
-      diffTimestamp: (m.diffTimestamp || 0) + timeOffset,
-    })),
-  ];
+    // Add 2000ms for the wait time between channel switches
+    const timeOffset = lastFirstChannelTimestamp + 2000;
 
-  await frameRateMeasurer.stop();
+    combinedMeasurements = [
+      ...firstChannelMeasurements.map((m) => ({...m, channel: firstChannelId})),
+      ...secondChannelMeasurements.map((m) => ({
+        ...m,
+        channel: secondChannelId,
+        // Adjust timestamps to continue from first channel
+        diffTimestamp: (m.diffTimestamp || 0) + timeOffset,
+      })),
+    ];
+  } finally {
+    await frameMeasurer.stop();
+  }
 
   // Save the combined memory results
-  await createAndSaveToFiles(
-    combinedMeasurements,
-    `scroll-two-channels-memory-profile-${timestamp}`,
-  );
+  await stream.save('csv', MEMORY_COLUMNS, combinedMeasurements);
 
   // Return only the memory measurements (framerate is saved separately)
   return combinedMeasurements;
 }
 
 /**
- * Measures memory usage while scrolling through a channel
+ * Measures memory usage and rendered post list size while scrolling through a channel
  */
-async function profileScrollingInChannel(
+export async function profileScrollingInChannel(
   page: Page,
   startTime: Date,
   channelId: string,
   scrollCount: number,
   scrollStep: number,
   pauseBetweenScrolls: number,
+  stream: ResultStream<ChannelScrollMemoryMetrics>,
 ): Promise<ScrollMemoryMetrics[]> {
   const measurements: ScrollMemoryMetrics[] = [];
+  // Streamed samples carry their channel, the caller shapes the final rows
+  const record = async (sample: ScrollMemoryMetrics) => {
+    measurements.push(sample);
+    await stream.append([{...sample, channel: channelId}]);
+  };
+  const channelName = channelId.replace(/^sidebarItem_/, '');
 
   // Navigate to the specified channel
+  await markPhase(page, `switch to ${channelName}`);
   await page.evaluate((id) => {
     const element = document.getElementById(id);
     if (element) {
@@ -138,45 +212,64 @@ async function profileScrollingInChannel(
 
   const startTimestamp = Date.now(); // Record start time after GC and navigation
 
-  const containerSelector = '.post-list__dynamic';
+  const containerSelector = POST_LIST_SELECTOR;
 
   // Take initial measurement before scrolling
   let initialMetrics = await measureMemoryUsage(page);
+  const initialListSize = await measurePostListSize(page);
 
   // Add initial metrics
-  measurements.push({...initialMetrics, diffTimestamp: 0, scrollPosition: 0});
+  await record({
+    ...initialMetrics,
+    ...initialListSize,
+    diffTimestamp: 0,
+    scrollPosition: 0,
+    loadMoreFired: false,
+  });
 
-  for (let i = 0; i < scrollCount; i++) {
-    // Scroll up by scrollStep pixels
-    await page.evaluate(
-      (selector, step) => {
-        const container = document.querySelector(selector) as HTMLElement;
-        if (container) {
-          // Negative value scrolls UP
-          container.scrollBy({top: -step, behavior: 'smooth'});
-        }
-      },
-      containerSelector,
-      scrollStep,
-    );
+  const loadMoreWatcher = new LoadMoreWatcher(page);
+  loadMoreWatcher.start();
+
+  await markPhase(page, `scroll ${channelName}`);
 
-    // Wait for content to load and smooth scrolling to complete
-    await new Promise((resolve) => setTimeout(resolve, pauseBetweenScrolls));
+  try {
+    for (let i = 0; i < scrollCount; i++) {
+      // Scroll up by scrollStep pixels
+      await page.evaluate(
+        (selector, step) => {
+          const container = document.querySelector(selector) as HTMLElement;
+          if (container) {
+            // Negative value scrolls UP
+            container.scrollBy({top: -step, behavior: 'smooth'});
+          }
+        },
+        containerSelector,
+        scrollStep,
+      );
+
+      // Wait for content to load and smooth scrolling to complete
+      await new Promise((resolve) => setTimeout(resolve, pauseBetweenScrolls));
 
-    // Get current scroll position from the DOM
-    const scrollPosition = await page.evaluate((selector) => {
-      const container = document.querySelector(selector) as HTMLElement;
-      return container ? container.scrollTop : 0;
-    }, containerSelector);
+      // Get current scroll position from the DOM
+      const scrollPosition = await page.evaluate((selector) => {
+        const container = document.querySelector(selector) as HTMLElement;
+        return container ? container.scrollTop : 0;
+      }, containerSelector);
 
-    // Take memory measurement
-    const metrics = await measureMemoryUsage(page);
+      // Take memory measurement
+      const metrics = await measureMemoryUsage(page);
+      const listSize = await measurePostListSize(page);
 
-    measurements.push({
-      ...metrics,
-      diffTimestamp: metrics.timestamp - startTimestamp,
-      scrollPosition,
-    });
+      await record({
+        ...metrics,
+        ...listSize,
+        diffTimestamp: metrics.timestamp - startTimestamp,
+        scrollPosition,
+        loadMoreFired: loadMoreWatcher.takeFired(),
+      });
+    }
+  } finally {
+    loadMoreWatcher.stop();
   }
 
   return measurements;
@@ -0,0 +1,163 @@
+import {Page} from 'puppeteer';
+import {
+  MemoryMetrics,
+  measureMemoryUsage,
+  MEMORY_COLUMNS,
+} from '../measurers/memory';
+import {convertTimestampsToSeconds} from '../measurers/toFile';
+import {ResultStream} from '../measurers/resultStream';
+import {forceGarbageCollection} from '../measurers/garbageCollector';
+import {createFrameMeasurer} from '../measurers/frameMeasurer';
+import {ProfilerConfig} from '../config';
+import {registerScenario} from './registry';
+import {Scenario} from './scenario';
+import {markPhase} from '../measurers/trace';
+
+type SwitchSameChannelsParams = {
+  iterations: number;
+  gcEvery: number;
+  waitAfterEachSwitch: number;
+};
+
+export const switchSameChannelsScenario: Scenario<SwitchSameChannelsParams> = {
+  name: 'switch-same-channels',
+  description:
+    'Toggles between the main and secondary channel to expose state retained across switches',
+  params: {
+    iterations: {
+      type: 'number',
+      description:
+        'Round trips to the secondary channel and back, one memory sample each',
+      default: 50,
+    },
+    gcEvery: {
+      type: 'number',
+      description:
+        'Force garbage collection before every Nth sample, 0 to never force it',
+      default: 5,
+    },
+    waitAfterEachSwitch: {
+      type: 'number',
+      description: 'Milliseconds to wait after each switch',
+      default: 1500,
+    },
+  },
+  setup: async ({page, config}) => {
+    // Start from the main channel so every iteration ends where it began
+    await switchToChannel(page, `sidebarItem_${config.channel}`);
+    await new Promise((resolve) => setTimeout(resolve, 3000));
+    await forceGarbageCollection(page);
+  },
+  run: ({page, config, startTime, timestamp, params}) =>
+    profileSwitchingSameChannels(
+      page,
+      config,
+      startTime,
+      timestamp,
+      params.iterations,
+      params.gcEvery,
+      params.waitAfterEachSwitch,
+    ),
+};
+
+registerScenario(switchSameChannelsScenario);
+
+export async function profileSwitchingSameChannels(
+  page: Page,
+  config: ProfilerConfig,
+  startTime: Date,
+  timestamp: string,
+  iterations: number,
+  gcEvery: number,
+  waitAfterEachSwitch: number,
+): Promise<MemoryMetrics[]> {
+  const measurements: MemoryMetrics[] = [];
+  const stream = new ResultStream(
+    `switch-same-channels-memory-profile-${timestamp}`,
+  );
+  // Samples are streamed with their timestamps converted to include seconds
+  const record = async (sample: MemoryMetrics) => {
+    measurements.push(sample);
+    await stream.append(convertTimestampsToSeconds([sample]));
+  };
+
+  const mainChannelId = `sidebarItem_${config.channel}`;
+  const secondaryChannelId = `sidebarItem_${config.secondaryChannel}`;
+
+  const frameMeasurer = createFrameMeasurer(
+    page,
+    config.frameMeasurement,
+    'switch-same-channels',
+    timestamp,
+  );
+  await frameMeasurer.start();
+
+  try {
+    console.log(
+      `Started switching between ${config.channel} and ${config.secondaryChannel}`,
+    );
+    console.log(
+      `Configuration: ${iterations} iterations, GC every ${gcEvery || 'never'}, ${waitAfterEachSwitch}ms delay`,
+    );
+
+    // Baseline sample before any switch
+    const baseline = await measureMemoryUsage(page);
+    await record({
+      ...baseline,
+      diffTimestamp: baseline.timestamp - startTime.getTime(),
+      channelId: mainChannelId,
+      iteration: 0,
+      afterGC: true, // Setup collected garbage right before
+    });
+
+    for (let i = 1; i <= iterations; i++) {
+      await markPhase(
+        page,
+        `iteration ${i}: switch to ${config.secondaryChannel}`,
+      );
+      await switchToChannel(page, secondaryChannelId);
+      await new Promise((resolve) => setTimeout(resolve, waitAfterEachSwitch));
+
+      await markPhase(page, `iteration ${i}: switch to ${config.channel}`);
+      await switchToChannel(page, mainChannelId);
+      await new Promise((resolve) => setTimeout(resolve, waitAfterEachSwitch));
+
+      const afterGC = gcEvery > 0 && i % gcEvery === 0;
+      if (afterGC) {
+        await markPhase(page, `iteration ${i}: forced GC`);
+        await forceGarbageCollection(page);
+      }
+
+      // Always sampled on the main channel so iterations are comparable
+      const metrics = await measureMemoryUsage(page);
+
+      await record({
+        ...metrics,
+        diffTimestamp: metrics.timestamp - startTime.getTime(),
+        channelId: mainChannelId,
+        iteration: i,
+        afterGC,
+      });
+    }
+  } finally {
+    await frameMeasurer.stop();
+  }
+
+  await stream.save('csv', MEMORY_COLUMNS);
+
+  return measurements;
+}
+
+/**
+ * Clicks a channel in the sidebar by its element id
+ */
+async function switchToChannel(page: Page, channelId: string): Promise<void> {
+  await page.evaluate((id) => {
+    const element = document.getElementById(id);
+    if (element) {
+      element.click();
+    } else {
+      console.error(`Channel with id ${id} not found`);
+    }
+  }, channelId);
+}
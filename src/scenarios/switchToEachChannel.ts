@@ -1,89 +1,151 @@
 import {Page} from 'puppeteer';
-import {MemoryMetrics, measureMemoryUsage} from '../measurers/memory';
+import {
+  MemoryMetrics,
+  measureMemoryUsage,
+  MEMORY_COLUMNS,
+} from '../measurers/memory';
 import {createAndSaveToFiles} from '../measurers/toFile';
+import {ResultStream} from '../measurers/resultStream';
 import {forceGarbageCollection} from '../measurers/garbageCollector';
 import {convertTimestampsToSeconds} from '../measurers/toFile';
-import {FrameRateMeasurer} from '../measurers/frameRate';
+import {createFrameMeasurer} from '../measurers/frameMeasurer';
+import {ProfilerConfig} from '../config';
+import {registerScenario} from './registry';
+import {Scenario} from './scenario';
+import {markPhase} from '../measurers/trace';
+import {recordMetric} from '../measurers/metrics';
+import {
+  ChannelSwitchTiming,
+  measureChannelSwitch,
+  summarizeChannelSwitches,
+} from '../measurers/channelSwitch';
+
+interface ChannelSwitchMetrics extends MemoryMetrics, ChannelSwitchTiming {}
+
+type SwitchEachChannelParams = {waitAfterEachSwitch: number};
+
+export const switchEachChannelScenario: Scenario<SwitchEachChannelParams> = {
+  name: 'switch-each-channel',
+  description: 'Opens every channel in the sidebar once, top to bottom',
+  params: {
+    waitAfterEachSwitch: {
+      type: 'number',
+      description: 'Milliseconds to wait after each switch before measuring',
+      default: 1500,
+    },
+  },
+  setup: async ({page}) => {
+    await forceGarbageCollection(page);
+  },
+  run: ({page, config, startTime, timestamp, params}) =>
+    profileSwitchingToEachChannel(
+      page,
+      config,
+      startTime,
+      timestamp,
+      params.waitAfterEachSwitch,
+    ),
+};
+
+registerScenario(switchEachChannelScenario);
 
 export async function profileSwitchingToEachChannel(
   page: Page,
+  config: ProfilerConfig,
   startTime: Date,
   timestamp: string,
   waitAfterEachSwitch: number = 2000,
-): Promise<MemoryMetrics[]> {
-  const measurements: MemoryMetrics[] = [];
-
-  await forceGarbageCollection(page);
+): Promise<ChannelSwitchMetrics[]> {
+  const measurements: ChannelSwitchMetrics[] = [];
+  const stream = new ResultStream(
+    `switch-each-channel-memory-profile-${timestamp}`,
+  );
 
-  const frameRateMeasurer = new FrameRateMeasurer(
+  const frameMeasurer = createFrameMeasurer(
     page,
-    `switch-each-channel-framerate-${timestamp}`,
+    config.frameMeasurement,
+    'switch-each-channel',
+    timestamp,
   );
-  await frameRateMeasurer.start();
-
-  console.log('Started switching to each channel');
-  console.log(`Configuration: ${waitAfterEachSwitch}ms delay`);
-
-  // Wait for sidebar container to appear
-  await page.waitForSelector('#sidebar-left');
-
-  // Get all sidebar links within sidebar-left
-  const channelLinks = await page.evaluate(() => {
-    const sidebar = document.getElementById('sidebar-left');
-    if (!sidebar) return [];
-
-    // Find all anchor tags with class SidebarLink directly
-    const links = Array.from(sidebar.querySelectorAll('a.SidebarLink'));
-    return links
-      .map((link) => {
-        return {
-          id: link.id || 'Unknown Channel id',
-          ariaLabel:
-            link.getAttribute('aria-label') || 'Unknown Channel aria-label',
-        };
-      })
-      .filter((link) => link.id); // Filter out links without IDs
-  });
-
-  for (let i = 0; i < channelLinks.length; i++) {
-    const channel = channelLinks[i];
-
-    // Click on the channel by ID
-    await page.evaluate((id) => {
-      const element = document.getElementById(id);
-      if (element) {
-        element.click();
-      }
-    }, channel.id);
-
-    // Wait for content to load and stabilize
-    await new Promise((resolve) => setTimeout(resolve, waitAfterEachSwitch));
-
-    // Take memory measurement
-    const metrics = await measureMemoryUsage(page);
-
-    // Calculate diffTimestamp from start time
-    metrics.diffTimestamp = metrics.timestamp - startTime.getTime();
-
-    // Add channel name to metrics
-    const metricsWithChannel = {
-      ...metrics,
-      channelAriaLabel: channel.ariaLabel,
-      channelId: channel.id,
-    };
-
-    measurements.push(metricsWithChannel);
+  await frameMeasurer.start();
+
+  try {
+    console.log('Started switching to each channel');
+    console.log(`Configuration: ${waitAfterEachSwitch}ms delay`);
+
+    // Wait for sidebar container to appear
+    await page.waitForSelector('#sidebar-left');
+
+    // Get all sidebar links within sidebar-left
+    const channelLinks = await page.evaluate(() => {
+      const sidebar = document.getElementById('sidebar-left');
+      if (!sidebar) return [];
+
+      // Find all anchor tags with class SidebarLink directly
+      const links = Array.from(sidebar.querySelectorAll('a.SidebarLink'));
+      return links
+        .map((link) => {
+          return {
+            id: link.id || 'Unknown Channel id',
+            ariaLabel:
+              link.getAttribute('aria-label') || 'Unknown Channel aria-label',
+          };
+        })
+        .filter((link) => link.id); // Filter out links without IDs
+    });
+
+    for (let i = 0; i < channelLinks.length; i++) {
+      const channel = channelLinks[i];
+
+      // Click on the channel by ID and time the switch
+      await markPhase(page, `switch to ${channel.ariaLabel}`);
+      const switchStart = Date.now();
+      const switchTiming = await measureChannelSwitch(page, channel.id);
+
+      // Wait for content to load and stabilize, timing the switch counts toward the wait
+      const remainingWait = waitAfterEachSwitch - (Date.now() - switchStart);
+      await new Promise((resolve) =>
+        setTimeout(resolve, Math.max(0, remainingWait)),
+      );
+
+      // Take memory measurement
+      const metrics = await measureMemoryUsage(page);
+
+      // Calculate diffTimestamp from start time
+      metrics.diffTimestamp = metrics.timestamp - startTime.getTime();
+
+      // Add channel name and switch latency to metrics
+      const metricsWithChannel = {
+        ...metrics,
+        channelAriaLabel: channel.ariaLabel,
+        channelId: channel.id,
+        ...switchTiming,
+      };
+
+      measurements.push(metricsWithChannel);
+      // Streamed with timestamps converted to include seconds
+      await stream.append(convertTimestampsToSeconds([metricsWithChannel]));
+    }
+  } finally {
+    await frameMeasurer.stop();
   }
 
-  await frameRateMeasurer.stop();
-
-  // Convert timestamps to include seconds
-  const dataWithSeconds = convertTimestampsToSeconds(measurements);
-
+  // Distribution of switch latencies over all channels
+  const latencyDistribution = summarizeChannelSwitches(measurements);
+  for (const distribution of latencyDistribution) {
+    console.log(
+      `${distribution.metric}: p50 ${distribution.p50}ms, p90 ${distribution.p90}ms, max ${distribution.max}ms (${distribution.count} switches)`,
+    );
+    recordMetric(`channelSwitch.${distribution.metric}.p50`, distribution.p50);
+    recordMetric(`channelSwitch.${distribution.metric}.p90`, distribution.p90);
+    recordMetric(`channelSwitch.${distribution.metric}.max`, distribution.max);
+  }
   await createAndSaveToFiles(
-    dataWithSeconds,
-    `switch-each-channel-memory-profile-${timestamp}`,
+    latencyDistribution,
+    `switch-each-channel-switch-latency-${timestamp}`,
   );
 
+  await stream.save('csv', MEMORY_COLUMNS);
+
   return measurements;
 }
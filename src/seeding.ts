@@ -0,0 +1,329 @@
+import {
+  Channel,
+  MattermostClient,
+  Post,
+  PostList,
+  Team,
+  User,
+} from './api/client';
+import {ProfilerConfig} from './config';
+
+// Seeded channels are named perf-<seed>-<n>, so cleanup finds exactly them
+const CHANNEL_PREFIX = 'perf';
+
+// Team channels are listed this many at a time when cleaning up
+const CHANNEL_PAGE_SIZE = 200;
+
+// Posts of an existing channel are counted this many at a time
+const POST_PAGE_SIZE = 200;
+
+const VOCABULARY =
+  'the a performance channel message thread reply scroll render list memory heap frame latency switch post team user webapp server browser cache layout paint network socket event update state store selector component virtual window batch request response timeout retry queue worker'.split(
+    ' ',
+  );
+
+const EMOJIS = [
+  '+1',
+  'smile',
+  'tada',
+  'eyes',
+  'heart',
+  'rocket',
+  'white_check_mark',
+];
+
+export interface SeedOptions {
+  seed: number; // Same seed, same dataset
+  channels: number;
+  postsPerChannel: number; // Root posts, thread replies come on top
+  messageWords: {min: number; max: number};
+  attachmentRatio: number; // Share of root posts with a file attached
+  reactionRatio: number; // Share of posts with a reaction
+  threadRatio: number; // Share of root posts that start a thread
+  repliesPerThread: number;
+}
+
+export const DEFAULT_SEED_OPTIONS: Omit<SeedOptions, 'seed'> = {
+  channels: 10,
+  postsPerChannel: 500,
+  messageWords: {min: 5, max: 40},
+  attachmentRatio: 0.05,
+  reactionRatio: 0.2,
+  threadRatio: 0.1,
+  repliesPerThread: 3,
+};
+
+export interface SeedSummary {
+  channels: string[]; // Names of the seeded channels
+  posts: number;
+  replies: number;
+  attachments: number;
+  reactions: number;
+}
+
+/**
+ * Creates a deterministic dataset in the configured team through the REST
+ * API: channels, posts of varying length, attachments, reactions and
+ * threads. Channels that already exist are left as they are, so a seeded
+ * server can be reused, but only when they hold the planned posts: a
+ * partial or different channel fails seeding, run cleanup to recreate it.
+ */
+export async function seedDataset(
+  config: ProfilerConfig,
+  options: SeedOptions,
+): Promise<SeedSummary> {
+  const client = new MattermostClient(config);
+  const user = await client.login();
+  const team = await client.request<Team>(
+    'GET',
+    `teams/name/${encodeURIComponent(config.team)}`,
+  );
+
+  // Draws happen in the same order for the same options whatever exists
+  // on the server, so every machine gets the same dataset
+  const random = createRandom(options.seed);
+  const summary: SeedSummary = {
+    channels: [],
+    posts: 0,
+    replies: 0,
+    attachments: 0,
+    reactions: 0,
+  };
+
+  console.log(
+    `Seeding ${options.channels} channels of ${options.postsPerChannel} posts with seed ${options.seed}...`,
+  );
+
+  for (let index = 1; index <= options.channels; index++) {
+    const name = seedChannelName(options.seed, index);
+    summary.channels.push(name);
+
+    const plan = planChannel(random, options);
+    const existing = await client.find<Channel>(
+      `teams/${team.id}/channels/name/${name}?include_deleted=true`,
+    );
+    if (existing) {
+      if (existing.delete_at > 0) {
+        throw new Error(
+          `Seeded channel ${name} is archived and cannot be recreated. Delete it permanently, which needs ServiceSettings.EnableAPIChannelDeletion.`,
+        );
+      }
+      await checkSeededChannel(client, existing, plan);
+      console.log(`Channel ${name} already exists, skipping it`);
+      continue;
+    }
+
+    const channel = await client.request<Channel>('POST', 'channels', {
+      team_id: team.id,
+      name,
+      display_name: `Perf ${options.seed} #${index}`,
+      type: 'O',
+      purpose: `Performance test data, seed ${options.seed}`,
+    });
+    await seedChannel(client, user, channel, plan, summary);
+    console.log(`Seeded ${name}`);
+  }
+
+  console.log(
+    `Seeded ${summary.posts} posts, ${summary.replies} replies, ${summary.attachments} attachments and ${summary.reactions} reactions`,
+  );
+
+  return summary;
+}
+
+/**
+ * Deletes the channels seeded with a seed, whatever their count. Channels
+ * are deleted permanently when the server allows it and archived otherwise.
+ * Returns the names of the removed channels.
+ */
+export async function cleanupSeed(
+  config: ProfilerConfig,
+  seed: number,
+): Promise<string[]> {
+  const client = new MattermostClient(config);
+  await client.login();
+  const team = await client.request<Team>(
+    'GET',
+    `teams/name/${encodeURIComponent(config.team)}`,
+  );
+
+  const prefix = `${CHANNEL_PREFIX}-${seed}-`;
+  const seeded: Channel[] = [];
+  for (let page = 0; ; page++) {
+    const channels = await client.request<Channel[]>(
+      'GET',
+      `teams/${team.id}/channels?page=${page}&per_page=${CHANNEL_PAGE_SIZE}`,
+    );
+    seeded.push(...channels.filter((c) => c.name.startsWith(prefix)));
+    if (channels.length < CHANNEL_PAGE_SIZE) break;
+  }
+
+  for (const channel of seeded) {
+    try {
+      await client.request('DELETE', `channels/${channel.id}?permanent=true`);
+      console.log(`Deleted ${channel.name}`);
+    } catch (err) {
+      console.error(
+        `Could not delete ${channel.name} permanently, archiving it:`,
+        err,
+      );
+      await client.request('DELETE', `channels/${channel.id}`);
+    }
+  }
+
+  console.log(`Removed ${seeded.length} seeded channels`);
+  return seeded.map((c) => c.name);
+}
+
+/**
+ * Checks an existing seeded channel holds as many posts and replies as its
+ * plan. A seeding that was interrupted, or ran with other options, leaves
+ * a channel that would silently skew the results.
+ */
+async function checkSeededChannel(
+  client: MattermostClient,
+  channel: Channel,
+  plan: PlannedPost[],
+): Promise<void> {
+  const plannedReplies = plan.reduce(
+    (sum, post) => sum + post.replies.length,
+    0,
+  );
+
+  let posts = 0;
+  let replies = 0;
+  let before = '';
+  for (;;) {
+    const page = await client.request<PostList>(
+      'GET',
+      `channels/${channel.id}/posts?per_page=${POST_PAGE_SIZE}${before ? `&before=${before}` : ''}`,
+    );
+    for (const id of page.order) {
+      const post = page.posts[id];
+      // Join messages and the like are not part of the dataset
+      if (post.type) continue;
+      if (post.root_id) replies++;
+      else posts++;
+    }
+    if (page.order.length < POST_PAGE_SIZE) break;
+    before = page.order[page.order.length - 1];
+  }
+
+  if (posts !== plan.length || replies !== plannedReplies) {
+    throw new Error(
+      `Seeded channel ${channel.name} has ${posts} posts and ${replies} replies, the dataset has ${plan.length} and ${plannedReplies}. Remove it with --seed-cleanup and seed again.`,
+    );
+  }
+}
+
+export function seedChannelName(seed: number, index: number): string {
+  return `${CHANNEL_PREFIX}-${seed}-${index}`;
+}
+
+interface PlannedPost {
+  message: string;
+  attachment?: {filename: string; content: string};
+  reaction?: string;
+  replies: Array<{message: string; reaction?: string}>;
+}
+
+/**
+ * Decides every post of a channel up front, so what gets drawn does not
+ * depend on what the server already has
+ */
+function planChannel(
+  random: () => number,
+  options: SeedOptions,
+): PlannedPost[] {
+  const message = () => {
+    const {min, max} = options.messageWords;
+    const count = min + Math.floor(random() * (max - min + 1));
+    return Array.from(
+      {length: count},
+      () => VOCABULARY[Math.floor(random() * VOCABULARY.length)],
+    ).join(' ');
+  };
+  const reaction = () =>
+    random() < options.reactionRatio
+      ? EMOJIS[Math.floor(random() * EMOJIS.length)]
+      : undefined;
+
+  return Array.from({length: options.postsPerChannel}, (_, index) => {
+    const post: PlannedPost = {message: message(), replies: []};
+    if (random() < options.attachmentRatio) {
+      post.attachment = {
+        filename: `attachment-${options.seed}-${index}.txt`,
+        content: message(),
+      };
+    }
+    post.reaction = reaction();
+    if (random() < options.threadRatio) {
+      for (let reply = 0; reply < options.repliesPerThread; reply++) {
+        post.replies.push({message: message(), reaction: reaction()});
+      }
+    }
+    return post;
+  });
+}
+
+async function seedChannel(
+  client: MattermostClient,
+  user: User,
+  channel: Channel,
+  plan: PlannedPost[],
+  summary: SeedSummary,
+): Promise<void> {
+  const react = async (post: Post, emoji?: string) => {
+    if (!emoji) return;
+    await client.request('POST', 'reactions', {
+      user_id: user.id,
+      post_id: post.id,
+      emoji_name: emoji,
+    });
+    summary.reactions++;
+  };
+
+  for (const planned of plan) {
+    const fileIds = planned.attachment
+      ? [
+          await client.uploadFile(
+            channel.id,
+            planned.attachment.filename,
+            planned.attachment.content,
+          ),
+        ]
+      : [];
+    const root = await client.request<Post>('POST', 'posts', {
+      channel_id: channel.id,
+      message: planned.message,
+      file_ids: fileIds,
+    });
+    summary.posts++;
+    summary.attachments += fileIds.length;
+    await react(root, planned.reaction);
+
+    for (const reply of planned.replies) {
+      const post = await client.request<Post>('POST', 'posts', {
+        channel_id: channel.id,
+        root_id: root.id,
+        message: reply.message,
+      });
+      summary.replies++;
+      await react(post, reply.reaction);
+    }
+  }
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,47 @@
+import {describe, it} from 'node:test';
+import * as assert from 'node:assert/strict';
+import {barChart, lineChart} from '../src/report/charts';
+
+describe('lineChart', () => {
+  it('renders series of one point per frame', () => {
+    // Frame timings of a few repeated scrolling runs
+    const points = (offset: number): Array<[number, number]> =>
+      Array.from({length: 110000}, (_, i) => [i / 60, 16 + ((i + offset) % 7)]);
+    const chart = lineChart({
+      title: 'Frame times',
+      xLabel: 'Time (s)',
+      yLabel: 'ms',
+      series: [
+        {label: 'run 1', points: points(0)},
+        {label: 'run 2', points: points(3)},
+      ],
+      overlay: {label: 'scroll', yLabel: 'px', points: points(5)},
+    });
+
+    assert.ok(chart.startsWith('<figure>'));
+    assert.equal(chart.match(/<polyline /g)?.length, 3);
+  });
+
+  it('renders nothing without points', () => {
+    assert.equal(
+      lineChart({title: 'Empty', xLabel: 'x', yLabel: 'y', series: []}),
+      '',
+    );
+  });
+});
+
+describe('barChart', () => {
+  it('renders a bar per entry', () => {
+    const chart = barChart({
+      title: 'Channel switch latency',
+      unit: 'ms',
+      valueLabel: 'time to stable',
+      bars: [
+        {label: 'town-square', value: 120},
+        {label: 'off-topic', value: 80},
+      ],
+    });
+    assert.match(chart, /town-square/);
+    assert.match(chart, /off-topic/);
+  });
+});
@@ -0,0 +1,61 @@
+import {after, before, describe, it} from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {loadConfig} from '../src/config';
+
+describe('loadConfig', () => {
+  let dir: string;
+  let config: string;
+
+  before(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'profiler-config-'));
+    config = path.join(dir, 'profiler.config.json');
+    await fs.writeFile(
+      config,
+      JSON.stringify({
+        baseUrl: 'http://localhost:8065',
+        team: 'team',
+        channel: 'town-square',
+        user: 'sysadmin',
+      }),
+    );
+  });
+
+  after(async () => {
+    await fs.rm(dir, {recursive: true, force: true});
+  });
+
+  it('accepts the leak options from the command line', async () => {
+    const loaded = await loadConfig({
+      config,
+      leakThreshold: '0.5',
+      leakWarmup: '0',
+    });
+    assert.equal(loaded.leakThresholdMB, 0.5);
+    assert.equal(loaded.leakWarmupIterations, 0);
+  });
+
+  it('rejects a negative or fractional leak warmup', async () => {
+    await assert.rejects(
+      loadConfig({config, leakWarmup: '-1'}),
+      /"leakWarmupIterations" must be a non-negative integer, got -1/,
+    );
+    await assert.rejects(
+      loadConfig({config, leakWarmup: '1.5'}),
+      /"leakWarmupIterations" must be a non-negative integer, got 1.5/,
+    );
+  });
+
+  it('rejects a leak threshold that is not above zero', async () => {
+    await assert.rejects(
+      loadConfig({config, leakThreshold: '0'}),
+      /"leakThresholdMB" must be greater than 0, got 0/,
+    );
+    await assert.rejects(
+      loadConfig({config, leakThreshold: '-0.1'}),
+      /"leakThresholdMB" must be greater than 0, got -0.1/,
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import {after, before, describe, it, TestContext} from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import puppeteer, {Browser} from 'puppeteer';
+import {FixtureOptions, startFixtureServer} from '../src/fixture/server';
+import {getScenario, runScenario, ScenarioParams} from '../src/scenarios';
+import {channelUrl, loadConfig} from '../src/config';
+import {injectSession} from '../src/auth';
+import {analyzeMemoryLeak} from '../src/analysis/leak';
+import {takeMetrics} from '../src/measurers/metrics';
+import {openRunDirectory} from '../src/measurers/toFile';
+import {MemoryMetrics} from '../src/measurers/memory';
+
+// Scenario runs take a few seconds each, a stuck browser should not hang the suite
+const TEST_TIMEOUT_MS = 120000;
+
+const SWITCH_PARAMS: ScenarioParams = {
+  iterations: 10,
+  gcEvery: 1,
+  waitAfterEachSwitch: 200,
+};
+
+const LEAK_OPTIONS = {warmupIterations: 2, thresholdMBPerIteration: 0.1};
+
+/**
+ * Runs the scenarios in a real browser against the fixture and checks that
+ * the detectors fire on injected faults and stay quiet without them. Skipped
+ * when no browser can be launched; point PUPPETEER_EXECUTABLE_PATH at one.
+ */
+describe('detectors against the fixture', () => {
+  let browser: Browser | undefined;
+  let launchError: unknown;
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'profiler-e2e-'));
+    openRunDirectory(directory);
+    try {
+      browser = await puppeteer.launch({
+        headless: true,
+        args: ['--no-sandbox'],
+      });
+    } catch (err) {
+      launchError = err;
+    }
+  });
+
+  after(async () => {
+    await browser?.close();
+    await fs.rm(directory, {recursive: true, force: true});
+  });
+
+  /**
+   * Runs switch-same-channels against a fixture with the given faults.
+   * Returns its memory series and run metrics.
+   */
+  async function profileSwitching(
+    faults: Partial<FixtureOptions>,
+  ): Promise<{measurements: MemoryMetrics[]; metrics: Record<string, number>}> {
+    const server = await startFixtureServer({port: 0, latencyMs: 0, ...faults});
+    const page = await browser!.newPage();
+    try {
+      const config = await loadConfig({
+        baseUrl: server.url,
+        team: 'team',
+        headless: true,
+        sessionCache: false,
+      });
+      await injectSession(page, config);
+      await page.goto(channelUrl(config, config.channel));
+      await page.waitForSelector(`#sidebarItem_${config.channel}`);
+
+      takeMetrics();
+      const measurements = await runScenario(
+        getScenario('switch-same-channels')!,
+        {
+          page,
+          config,
+          startTime: new Date(),
+          timestamp: 'calibration',
+          params: SWITCH_PARAMS,
+        },
+        {heapSnapshots: false, trace: false},
+      );
+      return {measurements, metrics: takeMetrics()};
+    } finally {
+      await page.close();
+      await server.close();
+    }
+  }
+
+  /**
+   * Runs page-load against a fixture with the given faults and returns the
+   * run metrics
+   */
+  async function profilePageLoads(
+    faults: Partial<FixtureOptions>,
+  ): Promise<Record<string, number>> {
+    const server = await startFixtureServer({port: 0, latencyMs: 0, ...faults});
+    const page = await browser!.newPage();
+    try {
+      const config = await loadConfig({
+        baseUrl: server.url,
+        team: 'team',
+        headless: true,
+        sessionCache: false,
+      });
+      await injectSession(page, config);
+      await page.goto(channelUrl(config, config.channel));
+
+      takeMetrics();
+      await runScenario(
+        getScenario('page-load')!,
+        {
+          page,
+          config,
+          startTime: new Date(),
+          timestamp: 'calibration',
+          params: {loads: 2, cacheModes: 'cold'},
+        },
+        {heapSnapshots: false, trace: false},
+      );
+      return takeMetrics();
+    } finally {
+      await page.close();
+      await server.close();
+    }
+  }
+
+  const skipWithoutBrowser = (t: TestContext): boolean => {
+    if (browser) return false;
+    t.skip(`no browser could be launched: ${launchError}`);
+    return true;
+  };
+
+  let baseline: Awaited<ReturnType<typeof profileSwitching>> | undefined;
+  const getBaseline = async () => (baseline ??= await profileSwitching({}));
+
+  it(
+    'finds no leak in the fixture without injected leaks',
+    {timeout: TEST_TIMEOUT_MS},
+    async (t) => {
+      if (skipWithoutBrowser(t)) return;
+      const {measurements} = await getBaseline();
+      assert.equal(
+        analyzeMemoryLeak(measurements, LEAK_OPTIONS).verdict,
+        'no-leak',
+      );
+    },
+  );
+
+  it(
+    'reports the leak injected with --leak-kb',
+    {timeout: TEST_TIMEOUT_MS},
+    async (t) => {
+      if (skipWithoutBrowser(t)) return;
+      // Two switches per iteration, about 1 MB retained each time
+      const {measurements} = await profileSwitching({leakKbPerSwitch: 512});
+      const verdict = analyzeMemoryLeak(measurements, LEAK_OPTIONS);
+      assert.equal(verdict.verdict, 'leak');
+      assert.ok(verdict.slopeMBPerIteration > 0.5);
+    },
+  );
+
+  it(
+    'reports the long tasks injected with --jank-ms',
+    {timeout: TEST_TIMEOUT_MS},
+    async (t) => {
+      if (skipWithoutBrowser(t)) return;
+      const {metrics} = await profileSwitching({
+        jankMs: 150,
+        jankIntervalMs: 300,
+      });
+      const {metrics: baselineMetrics} = await getBaseline();
+
+      assert.ok(metrics['mainThread.longTaskCount'] >= 5);
+      assert.ok(metrics['mainThread.longestTaskMs'] >= 150);
+      assert.ok(
+        metrics['mainThread.totalBlockingTimeMs'] >
+          baselineMetrics['mainThread.totalBlockingTimeMs'] + 500,
+      );
+    },
+  );
+
+  it(
+    'keeps observing long tasks across the loads of page-load',
+    {timeout: TEST_TIMEOUT_MS},
+    async (t) => {
+      if (skipWithoutBrowser(t)) return;
+      const metrics = await profilePageLoads({
+        jankMs: 150,
+        jankIntervalMs: 300,
+      });
+      assert.ok(metrics['mainThread.longTaskCount'] >= 5);
+      assert.ok(metrics['mainThread.totalBlockingTimeMs'] > 0);
+    },
+  );
+});
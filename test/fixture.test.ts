@@ -0,0 +1,168 @@
+import {after, before, describe, it} from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  FIXTURE_SERVER_VERSION,
+  FixtureServer,
+  fixtureChannels,
+  startFixtureServer,
+} from '../src/fixture/server';
+
+interface PostsPage {
+  order: string[];
+  posts: Record<string, {id: string; channel_id: string; message: string}>;
+}
+
+describe('fixture server', () => {
+  let server: FixtureServer;
+
+  before(async () => {
+    server = await startFixtureServer({
+      port: 0,
+      channels: 3,
+      postsPerChannel: 45,
+      postsPerPage: 20,
+      latencyMs: 0,
+      leakKbPerSwitch: 256,
+      jankMs: 80,
+      jankIntervalMs: 400,
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  const api = (endpoint: string, init?: RequestInit) =>
+    fetch(`${server.url}/api/v4/${endpoint}`, init);
+
+  const postJson = (endpoint: string, body: unknown) =>
+    api(endpoint, {
+      method: 'POST',
+      headers: {'Content-Type': 'application/json'},
+      body: JSON.stringify(body),
+    });
+
+  it('names the default channels of the profiler first', () => {
+    assert.deepEqual(
+      fixtureChannels(4).map((c) => c.name),
+      ['town-square', 'off-topic', 'channel-3', 'channel-4'],
+    );
+    assert.deepEqual(
+      fixtureChannels(1).map((c) => c.name),
+      ['town-square'],
+    );
+  });
+
+  it('serves the webapp with its settings on every route', async () => {
+    const response = await fetch(`${server.url}/team/channels/off-topic`);
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get('content-type') ?? '', /text\/html/);
+
+    const page = await response.text();
+    assert.match(page, /"name":"town-square"/);
+    assert.match(page, /"name":"channel-3"/);
+    assert.doesNotMatch(page, /"name":"channel-4"/);
+  });
+
+  it('injects the configured leak and jank into the webapp', async () => {
+    const page = await (await fetch(server.url)).text();
+    assert.match(page, /"leakKbPerSwitch":256/);
+    assert.match(page, /"jankMs":80/);
+    assert.match(page, /"jankIntervalMs":400/);
+  });
+
+  it('reports the fixture server version', async () => {
+    const config = await (await api('config/client')).json();
+    assert.equal(config.Version, FIXTURE_SERVER_VERSION);
+  });
+
+  it('rejects a login without a password', async () => {
+    const response = await postJson('users/login', {login_id: 'sysadmin'});
+    assert.equal(response.status, 401);
+  });
+
+  it('sets the session cookies and token on login', async () => {
+    const response = await postJson('users/login', {
+      login_id: 'sysadmin',
+      password: 'anything',
+    });
+    assert.equal(response.status, 200);
+    assert.ok(response.headers.get('Token'));
+
+    const cookies = response.headers.getSetCookie().join('\n');
+    assert.match(cookies, /MMAUTHTOKEN=[^;]+; Path=\/; HttpOnly/);
+    assert.match(cookies, /MMUSERID=/);
+    assert.match(cookies, /MMCSRF=/);
+  });
+
+  it('pages through generated posts, newest first', async () => {
+    const first: PostsPage = await (
+      await api('channels/town-square/posts?per_page=20')
+    ).json();
+    assert.equal(first.order.length, 20);
+    assert.equal(first.order[0], 'town-square-44');
+    assert.equal(first.order[19], 'town-square-25');
+    assert.equal(first.posts['town-square-44'].channel_id, 'town-square');
+
+    const last: PostsPage = await (
+      await api('channels/town-square/posts?per_page=20&before=town-square-5')
+    ).json();
+    assert.deepEqual(last.order, [
+      'town-square-4',
+      'town-square-3',
+      'town-square-2',
+      'town-square-1',
+      'town-square-0',
+    ]);
+  });
+
+  it('generates the same posts on every call', async () => {
+    const fetchPage = async () =>
+      (await api('channels/off-topic/posts?per_page=5')).json();
+    assert.deepEqual(await fetchPage(), await fetchPage());
+  });
+
+  it('answers 404 for unknown channels and routes', async () => {
+    assert.equal((await api('channels/nowhere/posts')).status, 404);
+    assert.equal((await api('teams/t/channels/name/nowhere')).status, 404);
+    assert.equal((await api('plugins')).status, 404);
+  });
+
+  it('keeps channels and posts created through the API', async () => {
+    const created = await postJson('channels', {
+      team_id: 'team',
+      name: 'created',
+      display_name: 'Created',
+      type: 'O',
+    });
+    assert.equal(created.status, 201);
+    assert.equal((await postJson('channels', {name: 'created'})).status, 400);
+
+    const post = await (
+      await postJson('posts', {channel_id: 'created', message: 'hello'})
+    ).json();
+    assert.equal(post.id, 'created-0');
+
+    const posts: PostsPage = await (await api('channels/created/posts')).json();
+    assert.deepEqual(posts.order, ['created-0']);
+    assert.equal(posts.posts['created-0'].message, 'hello');
+
+    const listed = await (await api('teams/team/channels?per_page=200')).json();
+    assert.ok(listed.some((c: {name: string}) => c.name === 'created'));
+    assert.match(await (await fetch(server.url)).text(), /"name":"created"/);
+
+    assert.equal(
+      (await api('channels/created', {method: 'DELETE'})).status,
+      200,
+    );
+    assert.equal((await api('channels/created/posts')).status, 404);
+  });
+
+  it('only stores posts in channels created through the API', async () => {
+    const response = await postJson('posts', {
+      channel_id: 'town-square',
+      message: 'hello',
+    });
+    assert.equal(response.status, 400);
+  });
+});
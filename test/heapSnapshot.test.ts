@@ -0,0 +1,115 @@
+import {after, before, describe, it} from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {execFileSync} from 'child_process';
+import {
+  readHeapSnapshot,
+  summarizeHeapSnapshot,
+} from '../src/analysis/heapSnapshot';
+
+// Root retains two Foo, both retain the same Bar, a string is only weakly held
+const SNAPSHOT = `{"snapshot":{"meta":{"node_fields":["type","name","id","self_size","edge_count"],"node_types":[["synthetic","object","native","string"],"string","number","number","number"],"edge_fields":["type","name_or_index","to_node"],"edge_types":[["element","property","weak"],"string_or_number","node"]},"node_count":5,"edge_count":5},
+"nodes":[0,1,1,0,2
+,1,2,3,100,2
+,1,3,5,50,0
+,1,2,7,10,1
+,3,6,9,20,0],
+"edges":[1,4,5,1,5,15
+,1,4,10,2,4,20
+,1,5,10],
+"trace_function_infos":[],
+"trace_tree":[[1,[2,[]]]],
+"samples":[],
+"locations":[],
+"strings":["<dummy>","Root","Foo","Bar","x","y","quote \\" back\\\\slash \\u00e9 ✓ {[\\n"]}
+`;
+
+describe('readHeapSnapshot', () => {
+  let directory: string;
+  let snapshotFile: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'heap-snapshot-'));
+    snapshotFile = path.join(directory, 'small.heapsnapshot');
+    await fs.writeFile(snapshotFile, SNAPSHOT);
+  });
+
+  after(async () => {
+    await fs.rm(directory, {recursive: true, force: true});
+  });
+
+  it('reads the same values as JSON.parse, whatever the chunk boundaries', async () => {
+    const expected = JSON.parse(SNAPSHOT);
+    for (let chunkSize = 1; chunkSize <= 32; chunkSize++) {
+      const raw = await readHeapSnapshot(snapshotFile, chunkSize);
+      assert.deepEqual(raw.snapshot, expected.snapshot);
+      assert.deepEqual(Array.from(raw.nodes), expected.nodes);
+      assert.deepEqual(Array.from(raw.edges), expected.edges);
+      assert.deepEqual(raw.strings, expected.strings);
+    }
+  });
+
+  it('reads a snapshot written by V8', async () => {
+    // A bare Node process, the heap of this one takes a minute to write
+    const file = path.join(directory, 'node.heapsnapshot');
+    execFileSync(process.execPath, [
+      '-e',
+      `require('v8').writeHeapSnapshot(${JSON.stringify(file)})`,
+    ]);
+    const expected = JSON.parse(await fs.readFile(file, 'utf-8'));
+    const raw = await readHeapSnapshot(file, 4093);
+
+    assert.deepEqual(raw.snapshot.meta, expected.snapshot.meta);
+    assert.equal(raw.nodes.length, expected.nodes.length);
+    assert.ok(raw.nodes.every((value, i) => value === expected.nodes[i]));
+    assert.equal(raw.edges.length, expected.edges.length);
+    assert.ok(raw.edges.every((value, i) => value === expected.edges[i]));
+    assert.deepEqual(raw.strings, expected.strings);
+  });
+
+  it('fails on a truncated snapshot', async () => {
+    const truncated = path.join(directory, 'truncated.heapsnapshot');
+    await fs.writeFile(
+      truncated,
+      SNAPSHOT.slice(0, SNAPSHOT.indexOf('"edges"')),
+    );
+    await assert.rejects(
+      readHeapSnapshot(truncated),
+      /not a complete heap snapshot/,
+    );
+  });
+});
+
+describe('summarizeHeapSnapshot', () => {
+  it('counts objects per class with their retained size', async () => {
+    const directory = await fs.mkdtemp(
+      path.join(os.tmpdir(), 'heap-snapshot-'),
+    );
+    try {
+      const file = path.join(directory, 'small.heapsnapshot');
+      await fs.writeFile(file, SNAPSHOT);
+      const summaries = await summarizeHeapSnapshot(file);
+
+      // Bar is held by both Foo, so neither retains it
+      assert.deepEqual(summaries.get('Foo'), {
+        className: 'Foo',
+        count: 2,
+        selfSize: 110,
+        retainedSize: 110,
+      });
+      assert.deepEqual(summaries.get('Bar'), {
+        className: 'Bar',
+        count: 1,
+        selfSize: 50,
+        retainedSize: 50,
+      });
+      // Weakly held objects are not reachable, the root is not an object
+      assert.equal(summaries.has('(string)'), false);
+      assert.equal(summaries.has('(synthetic)'), false);
+    } finally {
+      await fs.rm(directory, {recursive: true, force: true});
+    }
+  });
+});
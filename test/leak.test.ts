@@ -0,0 +1,94 @@
+import {describe, it} from 'node:test';
+import * as assert from 'node:assert/strict';
+import {analyzeMemoryLeak} from '../src/analysis/leak';
+import {MemoryMetrics} from '../src/measurers/memory';
+
+const OPTIONS = {warmupIterations: 2, thresholdMBPerIteration: 0.1};
+
+/**
+ * Builds a series of one sample per iteration, with heap from the given function
+ */
+function series(
+  iterations: number,
+  heapMB: (iteration: number) => number,
+  afterGC?: (iteration: number) => boolean,
+): MemoryMetrics[] {
+  return Array.from({length: iterations}, (_, iteration) => ({
+    heapTotalMB: 100,
+    heapUsedMB: heapMB(iteration),
+    timestamp: iteration * 1000,
+    iteration,
+    afterGC: afterGC?.(iteration),
+  }));
+}
+
+describe('analyzeMemoryLeak', () => {
+  it('reports steady post-GC growth as a leak', () => {
+    const verdict = analyzeMemoryLeak(
+      series(
+        10,
+        (i) => 50 + i,
+        () => true,
+      ),
+      OPTIONS,
+    );
+    assert.equal(verdict.verdict, 'leak');
+    assert.equal(verdict.slopeMBPerIteration, 1);
+    assert.equal(verdict.rSquared, 1);
+    assert.equal(verdict.sampleCount, 8);
+    assert.equal(verdict.postGCOnly, true);
+  });
+
+  it('fits only the samples taken right after a GC', () => {
+    // Garbage piles up between collections, the collected heap stays flat
+    const verdict = analyzeMemoryLeak(
+      series(
+        12,
+        (i) => (i % 2 === 0 ? 50 : 50 + i * 3),
+        (i) => i % 2 === 0,
+      ),
+      OPTIONS,
+    );
+    assert.equal(verdict.verdict, 'no-leak');
+    assert.equal(verdict.slopeMBPerIteration, 0);
+    assert.equal(verdict.sampleCount, 5);
+  });
+
+  it('never reports a leak from the raw heap', () => {
+    const verdict = analyzeMemoryLeak(
+      series(10, (i) => 50 + i),
+      OPTIONS,
+    );
+    assert.equal(verdict.verdict, 'inconclusive');
+    assert.equal(verdict.postGCOnly, false);
+    // Still fitted, for information
+    assert.equal(verdict.slopeMBPerIteration, 1);
+  });
+
+  it('treats noisy growth as no leak', () => {
+    const noise = [0, 3, -3, 2, -2, 3, -3, 2, -2, 0];
+    const verdict = analyzeMemoryLeak(
+      series(
+        10,
+        (i) => 50 + 0.2 * i + noise[i],
+        () => true,
+      ),
+      OPTIONS,
+    );
+    assert.ok(verdict.rSquared < 0.5);
+    assert.equal(verdict.verdict, 'no-leak');
+  });
+
+  it('needs a few samples after the warmup', () => {
+    const verdict = analyzeMemoryLeak(
+      series(
+        4,
+        (i) => 50 + i,
+        () => true,
+      ),
+      OPTIONS,
+    );
+    assert.equal(verdict.sampleCount, 2);
+    assert.equal(verdict.verdict, 'inconclusive');
+  });
+});
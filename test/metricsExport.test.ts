@@ -0,0 +1,220 @@
+import {after, before, describe, it} from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import {AddressInfo} from 'net';
+import {
+  formatInfluxLineProtocol,
+  formatOpenMetrics,
+  LabelledMetrics,
+  pushMetrics,
+} from '../src/measurers/metricsExport';
+
+const TIMESTAMP = new Date(Date.UTC(2025, 3, 18, 14, 30, 5));
+
+const SAMPLES: LabelledMetrics[] = [
+  {
+    labels: {
+      scenario: 'switch-same-channels',
+      channel: 'town-square',
+      runId: '2025-04-18T14-30-05',
+      serverVersion: '10.5.0',
+      run: 1,
+    },
+    metrics: {'memory.finalHeapMB': 84.2, 'memory.postGCHeapGrowthMB': 1.5},
+  },
+  {
+    labels: {
+      scenario: 'switch-same-channels',
+      channel: 'town-square',
+      runId: '2025-04-18T14-30-05',
+      serverVersion: '10.5.0',
+      run: 2,
+    },
+    metrics: {'memory.finalHeapMB': 85},
+  },
+];
+
+// Label values that need escaping in both formats
+const AWKWARD_SAMPLE: LabelledMetrics = {
+  labels: {
+    scenario: 'scroll "two", channels',
+    channel: 'a\\b=c\nd',
+    runId: 'run 1',
+    run: 1,
+  },
+  metrics: {'frameRate.meanFps': 58.5},
+};
+
+describe('formatOpenMetrics', () => {
+  it('writes a gauge family per metric with a sample per run', () => {
+    assert.equal(
+      formatOpenMetrics(SAMPLES),
+      [
+        '# TYPE mattermost_webapp_memory_final_heap_mb gauge',
+        'mattermost_webapp_memory_final_heap_mb{scenario="switch-same-channels",channel="town-square",run_id="2025-04-18T14-30-05",server_version="10.5.0",run="1"} 84.2',
+        'mattermost_webapp_memory_final_heap_mb{scenario="switch-same-channels",channel="town-square",run_id="2025-04-18T14-30-05",server_version="10.5.0",run="2"} 85',
+        '# TYPE mattermost_webapp_memory_post_gc_heap_growth_mb gauge',
+        'mattermost_webapp_memory_post_gc_heap_growth_mb{scenario="switch-same-channels",channel="town-square",run_id="2025-04-18T14-30-05",server_version="10.5.0",run="1"} 1.5',
+        '# EOF',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('escapes backslashes, quotes and line breaks in label values', () => {
+    assert.equal(
+      formatOpenMetrics([AWKWARD_SAMPLE]),
+      [
+        '# TYPE mattermost_webapp_frame_rate_mean_fps gauge',
+        'mattermost_webapp_frame_rate_mean_fps{scenario="scroll \\"two\\", channels",channel="a\\\\b=c\\nd",run_id="run 1",run="1"} 58.5',
+        '# EOF',
+        '',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('formatInfluxLineProtocol', () => {
+  it('writes a line per run with labels as tags and metrics as fields', () => {
+    assert.equal(
+      formatInfluxLineProtocol(SAMPLES, TIMESTAMP),
+      [
+        'mattermost_webapp,scenario=switch-same-channels,channel=town-square,run_id=2025-04-18T14-30-05,server_version=10.5.0,run=1 memory.finalHeapMB=84.2,memory.postGCHeapGrowthMB=1.5 1744986605000000000',
+        'mattermost_webapp,scenario=switch-same-channels,channel=town-square,run_id=2025-04-18T14-30-05,server_version=10.5.0,run=2 memory.finalHeapMB=85 1744986605000000000',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('escapes commas, equals signs, spaces and line breaks in tags', () => {
+    assert.equal(
+      formatInfluxLineProtocol([AWKWARD_SAMPLE], TIMESTAMP),
+      'mattermost_webapp,scenario=scroll\\ "two"\\,\\ channels,channel=a\\b\\=c\\nd,run_id=run\\ 1,run=1 frameRate.meanFps=58.5 1744986605000000000\n',
+    );
+  });
+
+  it('skips runs without metrics', () => {
+    assert.equal(
+      formatInfluxLineProtocol(
+        [{labels: SAMPLES[0].labels, metrics: {}}],
+        TIMESTAMP,
+      ),
+      '',
+    );
+  });
+
+  it('writes the epoch as a nanosecond timestamp', () => {
+    assert.match(
+      formatInfluxLineProtocol([SAMPLES[1]], new Date(0)),
+      / memory\.finalHeapMB=85 0\n$/,
+    );
+  });
+});
+
+describe('pushMetrics', () => {
+  interface ReceivedRequest {
+    method?: string;
+    url?: string;
+    contentType?: string;
+    body: string;
+  }
+
+  let server: http.Server;
+  let baseUrl: string;
+  let received: ReceivedRequest[] = [];
+  let status = 200;
+
+  before(async () => {
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        received.push({
+          method: request.method,
+          url: request.url,
+          contentType: request.headers['content-type'],
+          body,
+        });
+        response.writeHead(status);
+        response.end(status < 300 ? '' : 'bad metrics');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const reset = (nextStatus: number) => {
+    received = [];
+    status = nextStatus;
+  };
+
+  it('posts OpenMetrics text with the OpenMetrics content type', async () => {
+    reset(200);
+    const url = `${baseUrl}/metrics/job/profiler`;
+    assert.equal(
+      await pushMetrics(SAMPLES, url, 'openmetrics', TIMESTAMP),
+      true,
+    );
+
+    assert.equal(received.length, 1);
+    assert.equal(received[0].method, 'POST');
+    assert.equal(received[0].url, '/metrics/job/profiler');
+    assert.equal(
+      received[0].contentType,
+      'application/openmetrics-text; version=1.0.0; charset=utf-8',
+    );
+    assert.equal(received[0].body, formatOpenMetrics(SAMPLES));
+  });
+
+  it('posts line protocol to an InfluxDB write endpoint', async () => {
+    reset(204);
+    const url = `${baseUrl}/api/v2/write?bucket=perf`;
+    assert.equal(
+      await pushMetrics([AWKWARD_SAMPLE], url, 'influx', TIMESTAMP),
+      true,
+    );
+
+    assert.equal(received.length, 1);
+    assert.equal(received[0].url, '/api/v2/write?bucket=perf');
+    assert.equal(received[0].contentType, 'text/plain; charset=utf-8');
+    assert.equal(
+      received[0].body,
+      formatInfluxLineProtocol([AWKWARD_SAMPLE], TIMESTAMP),
+    );
+  });
+
+  it('returns false when the endpoint rejects the metrics', async () => {
+    reset(400);
+    const logged: unknown[][] = [];
+    const consoleError = console.error;
+    console.error = (...args: unknown[]) => logged.push(args);
+    try {
+      assert.equal(
+        await pushMetrics(SAMPLES, baseUrl, 'openmetrics', TIMESTAMP),
+        false,
+      );
+    } finally {
+      console.error = consoleError;
+    }
+
+    assert.equal(received.length, 1);
+    assert.match(String(logged[0][1]), /400 Bad Request: bad metrics/);
+  });
+
+  it('returns false when nothing listens at the URL', async () => {
+    const consoleError = console.error;
+    console.error = () => {};
+    try {
+      assert.equal(
+        await pushMetrics(SAMPLES, 'http://localhost:1', 'influx', TIMESTAMP),
+        false,
+      );
+    } finally {
+      console.error = consoleError;
+    }
+  });
+});
@@ -0,0 +1,51 @@
+import {describe, it} from 'node:test';
+import * as assert from 'node:assert/strict';
+import {getScenario, resolveScenarioParams} from '../src/scenarios';
+
+describe('resolveScenarioParams', () => {
+  const pageLoad = getScenario('page-load')!;
+  const switching = getScenario('switch-same-channels')!;
+
+  it('starts from the defaults of every selected scenario', () => {
+    const params = resolveScenarioParams([pageLoad, switching], []);
+    assert.deepEqual(params.get('page-load'), {
+      loads: 5,
+      cacheModes: 'cold,warm',
+    });
+    assert.equal(
+      typeof params.get('switch-same-channels')?.iterations,
+      'number',
+    );
+  });
+
+  it('parses values and targets a scenario by prefix', () => {
+    const params = resolveScenarioParams(
+      [pageLoad, switching],
+      ['page-load.loads=3', 'cacheModes=warm', 'iterations=7'],
+    );
+    assert.deepEqual(params.get('page-load'), {loads: 3, cacheModes: 'warm'});
+    assert.equal(params.get('switch-same-channels')?.iterations, 7);
+  });
+
+  it('rejects values of the wrong type and unknown params', () => {
+    assert.throws(
+      () => resolveScenarioParams([pageLoad], ['loads=many']),
+      /must be a number/,
+    );
+    assert.throws(
+      () => resolveScenarioParams([pageLoad], ['scrollCount=3']),
+      /Unknown param/,
+    );
+  });
+
+  it('validates values before any scenario runs', () => {
+    assert.throws(
+      () => resolveScenarioParams([pageLoad], ['cacheModes=cold,hot']),
+      /Param "cacheModes" must list cold and\/or warm, got "cold,hot"/,
+    );
+    assert.throws(
+      () => resolveScenarioParams([pageLoad], ['cacheModes=']),
+      /Param "cacheModes"/,
+    );
+  });
+});
@@ -0,0 +1,87 @@
+import {after, before, describe, it} from 'node:test';
+import * as assert from 'node:assert/strict';
+import {FixtureServer, startFixtureServer} from '../src/fixture/server';
+import {ProfilerConfig, loadConfig} from '../src/config';
+import {MattermostClient} from '../src/api/client';
+import {
+  DEFAULT_SEED_OPTIONS,
+  SeedOptions,
+  cleanupSeed,
+  seedDataset,
+} from '../src/seeding';
+
+const OPTIONS: Omit<SeedOptions, 'seed'> = {
+  ...DEFAULT_SEED_OPTIONS,
+  channels: 2,
+  // More than a page of posts, so counting them pages through the channel
+  postsPerChannel: 210,
+  attachmentRatio: 0,
+  reactionRatio: 0,
+  threadRatio: 0.1,
+  repliesPerThread: 2,
+};
+
+describe('seedDataset against the fixture', () => {
+  let server: FixtureServer;
+  let config: ProfilerConfig;
+
+  before(async () => {
+    server = await startFixtureServer({port: 0, latencyMs: 0});
+    config = await loadConfig({
+      baseUrl: server.url,
+      team: 'team',
+      sessionCache: false,
+    });
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it('seeds the same dataset for the same seed', async () => {
+    const first = await seedDataset(config, {...OPTIONS, seed: 1});
+    assert.deepEqual(first.channels, ['perf-1-1', 'perf-1-2']);
+    assert.equal(first.posts, 420);
+    assert.ok(first.replies > 0);
+
+    await cleanupSeed(config, 1);
+    const second = await seedDataset(config, {...OPTIONS, seed: 1});
+    assert.deepEqual(second, first);
+  });
+
+  it('reuses complete channels', async () => {
+    const summary = await seedDataset(config, {...OPTIONS, seed: 2});
+    const again = await seedDataset(config, {...OPTIONS, seed: 2});
+    assert.deepEqual(again.channels, summary.channels);
+    assert.equal(again.posts, 0);
+    assert.equal(again.replies, 0);
+  });
+
+  it('fails on a partially seeded channel', async () => {
+    const client = new MattermostClient(config);
+    await client.login();
+    await client.request('POST', 'channels', {
+      team_id: 'team',
+      name: 'perf-3-1',
+      display_name: 'Perf 3 #1',
+      type: 'O',
+    });
+    await client.request('POST', 'posts', {
+      channel_id: 'perf-3-1',
+      message: 'interrupted',
+    });
+
+    await assert.rejects(
+      seedDataset(config, {...OPTIONS, seed: 3}),
+      /perf-3-1 has 1 posts and 0 replies/,
+    );
+  });
+
+  it('fails on a channel seeded with other options', async () => {
+    await seedDataset(config, {...OPTIONS, seed: 4});
+    await assert.rejects(
+      seedDataset(config, {...OPTIONS, seed: 4, postsPerChannel: 20}),
+      /perf-4-1 has 210 posts/,
+    );
+  });
+});
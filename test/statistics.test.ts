@@ -0,0 +1,110 @@
+import {describe, it} from 'node:test';
+import * as assert from 'node:assert/strict';
+import {
+  mannWhitneyU,
+  minimumMannWhitneyPValue,
+} from '../src/analysis/statistics';
+import {
+  compareRuns,
+  formatComparisonMarkdown,
+  minimumRepeat,
+  ScenarioRunMetrics,
+} from '../src/analysis/compare';
+
+const OPTIONS = {alpha: 0.05, tolerancePercent: 5};
+
+function near(actual: number, expected: number) {
+  assert.ok(
+    Math.abs(actual - expected) < 1e-9,
+    `expected ${expected}, got ${actual}`,
+  );
+}
+
+describe('mannWhitneyU', () => {
+  it('gives exact p-values for small samples without ties', () => {
+    // Complete separation: 2 of C(6, 3) = 20 orderings are as extreme
+    near(mannWhitneyU([1, 2, 3], [4, 5, 6]).pValue, 0.1);
+    near(mannWhitneyU([1, 2, 3, 4], [5, 6, 7, 8]).pValue, 2 / 70);
+    // P(U <= 6) = 24 / 70 for 4 v 4
+    const interleaved = mannWhitneyU([1, 3, 5, 7], [2, 4, 6, 8]);
+    assert.equal(interleaved.u, 6);
+    near(interleaved.pValue, 48 / 70);
+  });
+
+  it('is symmetric in the direction of the change', () => {
+    const up = mannWhitneyU([1, 2, 3, 4, 9], [5, 6, 7, 8, 10]);
+    const down = mannWhitneyU([5, 6, 7, 8, 10], [1, 2, 3, 4, 9]);
+    assert.equal(up.u + down.u, 25);
+    near(up.pValue, down.pValue);
+  });
+
+  it('never finds a difference between single runs', () => {
+    assert.equal(mannWhitneyU([1], [100]).pValue, 1);
+  });
+
+  it('falls back to the normal approximation with ties', () => {
+    const {u, pValue} = mannWhitneyU([1, 2, 2, 3], [2, 4, 5, 6]);
+    assert.equal(u, 2);
+    assert.ok(pValue > 0.1 && pValue < 0.11, `got ${pValue}`);
+    assert.equal(mannWhitneyU([3, 3, 3], [3, 3, 3]).pValue, 1);
+  });
+
+  it('returns NaN for an empty sample', () => {
+    assert.ok(Number.isNaN(mannWhitneyU([], [1, 2]).pValue));
+  });
+});
+
+describe('minimumMannWhitneyPValue', () => {
+  it('is what complete separation gives', () => {
+    near(minimumMannWhitneyPValue(3, 3), 0.1);
+    near(minimumMannWhitneyPValue(3, 4), 2 / 35);
+    near(minimumMannWhitneyPValue(4, 4), 2 / 70);
+    assert.equal(minimumMannWhitneyPValue(1, 1), 1);
+  });
+
+  it('gives the runs --repeat needs', () => {
+    assert.equal(minimumRepeat(0.05), 4);
+    assert.equal(minimumRepeat(0.01), 5);
+  });
+});
+
+describe('compareRuns', () => {
+  const runs = (values: number[]) => values.map((heapMB) => ({heapMB}));
+
+  it('flags separated samples with enough runs', () => {
+    const baseline: ScenarioRunMetrics = new Map([
+      ['scroll', runs([100, 101, 102, 103])],
+    ]);
+    const candidate: ScenarioRunMetrics = new Map([
+      ['scroll', runs([120, 121, 122, 123])],
+    ]);
+    const [comparison] = compareRuns(baseline, candidate, OPTIONS);
+    assert.equal(comparison.status, 'regression');
+  });
+
+  it('marks metrics with too few runs inconclusive and warns about them', () => {
+    const baseline: ScenarioRunMetrics = new Map([
+      ['scroll', runs([100, 101, 102])],
+    ]);
+    const candidate: ScenarioRunMetrics = new Map([
+      ['scroll', runs([200, 201, 202])],
+    ]);
+    const comparisons = compareRuns(baseline, candidate, OPTIONS);
+    assert.equal(comparisons[0].status, 'inconclusive');
+
+    const markdown = formatComparisonMarkdown(
+      comparisons,
+      'base',
+      'cand',
+      OPTIONS,
+    );
+    assert.match(markdown, /1 metrics have too few runs/);
+    assert.match(markdown, /--repeat 4/);
+  });
+
+  it('marks metrics missing on one side', () => {
+    const baseline: ScenarioRunMetrics = new Map([['scroll', runs([1, 2])]]);
+    const [comparison] = compareRuns(baseline, new Map(), OPTIONS);
+    assert.equal(comparison.status, 'missing');
+  });
+});
@@ -0,0 +1,147 @@
+import {after, before, describe, it} from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  convertTimestampsToSeconds,
+  createAndSaveToFiles,
+  csvColumns,
+  formatCsvField,
+  loadFromCsv,
+  openRunDirectory,
+  parseCsv,
+} from '../src/measurers/toFile';
+
+describe('formatCsvField', () => {
+  it('leaves plain values as they are', () => {
+    assert.equal(formatCsvField('heap'), 'heap');
+    assert.equal(formatCsvField(12.5), '12.5');
+    assert.equal(formatCsvField(false), 'false');
+  });
+
+  it('writes missing values as empty fields', () => {
+    assert.equal(formatCsvField(undefined), '');
+    assert.equal(formatCsvField(null), '');
+  });
+
+  it('quotes fields holding commas, quotes and line breaks', () => {
+    assert.equal(formatCsvField('a,b'), '"a,b"');
+    assert.equal(formatCsvField('say "hi"'), '"say ""hi"""');
+    assert.equal(formatCsvField('line\r\nbreak'), '"line\r\nbreak"');
+    assert.equal(formatCsvField('line\nbreak'), '"line\nbreak"');
+  });
+
+  it('writes objects as quoted JSON', () => {
+    assert.equal(formatCsvField({a: 1, b: 2}), '"{""a"":1,""b"":2}"');
+  });
+});
+
+describe('csvColumns', () => {
+  it('adds keys that first appear on a later row', () => {
+    assert.deepEqual(csvColumns([{a: 1}, {a: 2, b: 3}, {c: 4}]), [
+      'a',
+      'b',
+      'c',
+    ]);
+  });
+
+  it('puts the given columns first and in their order', () => {
+    assert.deepEqual(csvColumns([{b: 1, x: 2, a: 3}], ['a', 'b', 'missing']), [
+      'a',
+      'b',
+      'missing',
+      'x',
+    ]);
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, quotes and CRLF', () => {
+    assert.deepEqual(parseCsv('a,b\r\n"x,y","say ""hi"""\r\n"1\r\n2",3\r\n'), [
+      ['a', 'b'],
+      ['x,y', 'say "hi"'],
+      ['1\r\n2', '3'],
+    ]);
+  });
+
+  it('accepts LF line endings and a missing final line break', () => {
+    assert.deepEqual(parseCsv('a,b\n1,2'), [
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('skips blank lines but keeps empty fields', () => {
+    assert.deepEqual(parseCsv('a,b\r\n\r\n,2\r\n'), [
+      ['a', 'b'],
+      ['', '2'],
+    ]);
+  });
+});
+
+describe('CSV round trip', () => {
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'profiler-csv-'));
+    openRunDirectory(directory);
+  });
+
+  after(async () => {
+    await fs.rm(directory, {recursive: true, force: true});
+  });
+
+  it('reads back what it wrote, in the explicit column order', async () => {
+    const rows = [
+      {timestamp: 1, note: 'plain'},
+      {timestamp: 2, note: 'with, comma', extra: 'say "hi"'},
+      {timestamp: 3, note: 'two\r\nlines'},
+    ];
+    const file = await createAndSaveToFiles(rows, 'round-trip', 'csv', [
+      'note',
+      'timestamp',
+    ]);
+    assert.ok(file);
+
+    const content = await fs.readFile(file, 'utf8');
+    assert.ok(content.startsWith('note,timestamp,extra\r\n'));
+    assert.ok(content.endsWith('\r\n'));
+
+    assert.deepEqual(await loadFromCsv(file), [
+      {note: 'plain', timestamp: '1', extra: ''},
+      {note: 'with, comma', timestamp: '2', extra: 'say "hi"'},
+      {note: 'two\r\nlines', timestamp: '3', extra: ''},
+    ]);
+  });
+});
+
+describe('convertTimestampsToSeconds', () => {
+  it('adds both timestamps in seconds', () => {
+    assert.deepEqual(
+      convertTimestampsToSeconds([
+        {timestamp: 1712345678901, diffTimestamp: 1500},
+      ]),
+      [
+        {
+          timestamp: 1712345678901,
+          diffTimestamp: 1500,
+          timestamp_sec: 1712345678.901,
+          diffTimestamp_sec: 1.5,
+        },
+      ],
+    );
+  });
+
+  it('leaves diffTimestamp_sec undefined without a diffTimestamp', () => {
+    const [converted] = convertTimestampsToSeconds([{timestamp: 2500}]);
+    assert.equal(converted.timestamp_sec, 2.5);
+    assert.equal(converted.diffTimestamp_sec, undefined);
+  });
+
+  it('does not change the given rows', () => {
+    const rows = [{timestamp: 1000, diffTimestamp: 0}];
+    convertTimestampsToSeconds(rows);
+    assert.deepEqual(rows, [{timestamp: 1000, diffTimestamp: 0}]);
+  });
+});